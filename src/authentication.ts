@@ -22,6 +22,8 @@ import base32Encode from 'base32-encode';
 import base32Decode from 'base32-decode';
 import { randomBytes } from 'crypto';
 
+import QuicSocket from './quicSocket';
+
 export interface DeviceId {
 	asBytes: Uint8Array;
 	asString: string;
@@ -53,7 +55,8 @@ export default class Authentication {
             factor = factor === 1 ? 2 : 1
         }
 
-        const checkCodePoint = (alphabetSize - (sum % alphabetSize));
+        // a sum that divides exactly has a check digit of 0, not 32
+        const checkCodePoint = (alphabetSize - (sum % alphabetSize)) % alphabetSize;
         return alphabet[checkCodePoint];
     }
 
@@ -146,7 +149,7 @@ export default class Authentication {
         }
     }
 
-    static fromSocket(socket: TLSSocket, peer: boolean = true) : DeviceId {
+    static fromSocket(socket: TLSSocket | QuicSocket, peer: boolean = true) : DeviceId {
         let certHashString;
         try {
 	        if (peer) {
@@ -175,6 +178,26 @@ export default class Authentication {
         }
     }
 
+    static fromBytes(bytes: Uint8Array) : DeviceId {
+        try {
+            // copy, as a Buffer may be a view of a larger pool
+            const asBytes = Uint8Array.from(bytes);
+            return {
+                asBytes,
+                asString: this.addCheckDigits(base32Encode(asBytes, 'RFC4648', { padding: false })),
+                valid: true,
+            };
+        }
+        catch (e) {
+            console.error(e);
+            return {
+                asBytes: new Uint8Array(0),
+                asString: '',
+                valid: false,
+            };
+        }
+    }
+
     static fromString(deviceId: string) : DeviceId {
         // get rid of any hyphens
         try {
@@ -195,6 +218,11 @@ export default class Authentication {
         }
     }
 
+    // short form of a device ID as used in conflict file names, from the first 64 bits
+    static shortString(deviceId: Uint8Array) : string {
+        return base32Encode(deviceId.subarray(0, 8), 'RFC4648', { padding: false }).substring(0, 7);
+    }
+
     static generateCertificate(path: string) {
         // TODO: node-forge doesn't support signing edcsa certificates
         // use node Crypto module instead
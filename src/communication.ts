@@ -16,19 +16,22 @@ along with Syncthing TS.  If not, see <https://www.gnu.org/licenses/>.
 */
 
 import { readFileSync } from 'fs';
+import { TLSSocket } from 'tls';
 import { join, dirname, basename } from 'path';
 import { EventEmitter } from 'events';
 import Long from 'long';
 
 import { load, Root, util } from 'protobufjs';
-import { decompressBlock } from 'lz4js';
+import { decompressBlock, compressBlock } from 'lz4js';
 
-import { CLIENT_NAME, VERSION, Cluster, Folder, File, Device, Index, SyncStatus, Directory, Block, Response } from './constants';
+import { CLIENT_NAME, VERSION, Cluster, Folder, File, Device, Index, SyncStatus, Directory, Block, Response, PeerRequest, FileFlags, Compression, Close,
+    DownloadProgress, Hello } from './constants';
 import { BlockRequest } from './request';
 import Authentication, { DeviceId } from './authentication';
 import PeerSocket from './peerSocket';
-
-// TODO: retry on error / disconnection
+import MessageFramer, { Frame, HELLO_MAGIC, MAX_MESSAGE_LENGTH } from './messageFramer';
+import { ProtocolError, ConnectionError } from './errors';
+import VersionVector from './versionVector';
 
 export enum ProtocolMessage {
     CLUSTER_CONFIG = 0,
@@ -41,21 +44,10 @@ export enum ProtocolMessage {
     CLOSE,
 }
 
-enum MessageState {
-    start = 0,
-    continue = 1,
-}
-
-export interface Message {
-    type: number;
-    compression: number;
-    headerLength: number;
-    length: number;
-    decompressedLength: number;
-    received: number;
-    data: Uint8Array;
-    state: MessageState;
-}
+// messages smaller than this aren't worth compressing
+const COMPRESSION_THRESHOLD = 128;
+// LZ4 hash table size used by lz4js
+const LZ4_HASH_SIZE = 65536;
 
 export default class Communication {
     private socket: PeerSocket;
@@ -64,11 +56,18 @@ export default class Communication {
     private pingTimer: any;
 
     private deviceName: string;
-    private message: Message;
+    private framer = new MessageFramer();
+    // why we closed the connection, reported with the close event instead of the socket's error
+    private protocolError: ProtocolError | null = null;
     private extraDebugging: boolean;
+    // what we would like to compress, and what the peer has configured for us
+    private compression = Compression.metadata;
+    private peerCompression = Compression.metadata;
 
     localId: DeviceId;
     remoteId: DeviceId;
+    // set once the peer's Hello is received
+    remoteHello: Hello | null = null;
 
     private TYPE_TO_MESSAGE = [
         'ClusterConfig',
@@ -113,6 +112,7 @@ export default class Communication {
                         id: device.id,
                         name: device.name,
                         addresses: device.addresses.split(','),
+                        compression: this.compression,
                         maxSequence: Long.fromNumber(device.maxSequence),
                         // @ts-ignore, although it doesn't have push or pop it is still an array
                         indexId: Long.fromBytesBE(device.indexId),
@@ -125,12 +125,89 @@ export default class Communication {
             messageObject = encodedCluster;
         }
 
+        else if (type === 'Index' || type === 'IndexUpdate') {
+            const index = <Index>messageObject;
+
+            const encodedIndex = {
+                folder: index.folder,
+                files: [],
+            };
+
+            for (const directory of index.directories) {
+                // place holder directories (no version) only exist to hold files
+                // and the root directory is the folder itself
+                if (directory.version !== '' && directory.name !== '/') {
+                    encodedIndex.files.push(this.encodeFileInfo(directory.name, directory, 1));
+                }
+
+                for (const file of directory.files) {
+                    encodedIndex.files.push(this.encodeFileInfo(
+                        join(directory.name, file.name),
+                        file,
+                        file.symlinkTarget ? 4 : 0
+                    ));
+                }
+            }
+
+            messageObject = encodedIndex;
+        }
+
+        else if (type === 'DownloadProgress') {
+            const progress = <DownloadProgress>messageObject;
+
+            messageObject = {
+                folder: progress.folder,
+                updates: progress.updates.map((update) => ({
+                    updateType: update.updateType,
+                    // names are relative to folder root
+                    name: update.name.substring(1),
+                    version: VersionVector.toMessage(VersionVector.parse(update.version)),
+                    blockIndexes: update.blockIndexes,
+                })),
+            };
+        }
+
         const messageBuffer = messageProto.fromObject(messageObject);
         const encodedMessage = messageProto.encode(messageBuffer).finish();
 
         return encodedMessage;
     }
 
+    private encodeFileInfo(name: string, entry: File | Directory, type: number) : object {
+        const file = <File>entry;
+
+        const fileInfo = {
+            // names are relative to folder root
+            name: name.substring(1),
+            type: type,
+            size: Long.fromNumber(file.size ? file.size : 0),
+            permissions: entry.permissions,
+            modifiedS: Long.fromNumber(entry.modifiedS),
+            modifiedNs: entry.modifiedNs,
+            modifiedBy: entry.modifiedBy.length === 8 ? Long.fromBytesBE(Array.from(entry.modifiedBy), true) : Long.UZERO,
+            deleted: (entry.flags & FileFlags.deleted) !== 0,
+            invalid: (entry.flags & FileFlags.invalid) !== 0,
+            noPermissions: (entry.flags & FileFlags.noPermissions) !== 0,
+            version: VersionVector.toMessage(VersionVector.parse(entry.version)),
+            sequence: Long.fromNumber(entry.sequence),
+            blockSize: file.blockSize ? file.blockSize : 0,
+            symlinkTarget: file.symlinkTarget ? file.symlinkTarget : '',
+            blocks: [],
+        };
+
+        if (Array.isArray(file.blocks)) {
+            for (const block of file.blocks) {
+                fileInfo.blocks.push({
+                    offset: Long.fromNumber(block.offset),
+                    size: block.size,
+                    hash: block.hash,
+                });
+            }
+        }
+
+        return fileInfo;
+    }
+
     private combineFlags(item: any) {
         const deleted = item.deleted ? 1 : 0;
         const invalid = item.invalid ? 1 : 0;
@@ -172,6 +249,7 @@ export default class Communication {
                             indexId: new Uint8Array(decodedDevice.indexId.toBytesBE()),
                             // TODO: throw error on number larger than 2^53
                             maxSequence: decodedDevice.maxSequence ? decodedDevice.maxSequence.toNumber() : 0,
+                            compression: decodedDevice.compression,
                         };
                         folder.devices.push(device);
                     }
@@ -198,7 +276,7 @@ export default class Communication {
                         modifiedBy: new Uint8Array(decodedFile.modifiedBy.toBytesBE()),
                         flags: this.combineFlags(decodedFile),
                         sequence: decodedFile.sequence ? decodedFile.sequence.toNumber() : 0,
-                        version: JSON.stringify(decodedFile.version),
+                        version: VersionVector.stringify(VersionVector.fromMessage(decodedFile.version)),
                         sync: SyncStatus.none,
                     };
 
@@ -284,9 +362,50 @@ export default class Communication {
                 return response;
             }
 
+            else if (type === 'Request') {
+                const request : PeerRequest = {
+                    id: decodedMessage['id'],
+                    folder: decodedMessage['folder'],
+                    // internally all names start from root
+                    name: '/' + decodedMessage['name'],
+                    offset: decodedMessage['offset'] ? decodedMessage['offset'].toNumber() : 0,
+                    size: decodedMessage['size'],
+                    hash: new Uint8Array(decodedMessage['hash']),
+                };
+
+                return request;
+            }
+
             else if (type === 'Ping') {
             }
 
+            else if (type === 'DownloadProgress') {
+                const progress : DownloadProgress = {
+                    folder: decodedMessage['folder'],
+                    updates: [],
+                };
+
+                for (const decodedUpdate of decodedMessage['updates']) {
+                    progress.updates.push({
+                        updateType: decodedUpdate.updateType,
+                        // internally all names start from root
+                        name: '/' + decodedUpdate.name,
+                        version: VersionVector.stringify(VersionVector.fromMessage(decodedUpdate.version)),
+                        blockIndexes: decodedUpdate.blockIndexes,
+                    });
+                }
+
+                return progress;
+            }
+
+            else if (type === 'Close') {
+                const close : Close = {
+                    reason: decodedMessage['reason'],
+                };
+
+                return close;
+            }
+
             // only used internally to this class, so safe to ignore properties
             else if (type === 'Header') {
                 return decodedMessage;
@@ -313,6 +432,18 @@ export default class Communication {
         }
     }
 
+    // the peer's device entry for us says how it wants our connection compressed
+    private updatePeerCompression(cluster: Cluster) {
+        for (const folder of cluster.folders) {
+            for (const device of folder.devices) {
+                if (Buffer.from(device.id).equals(Buffer.from(this.localId.asBytes)) && device.compression !== undefined) {
+                    this.peerCompression = device.compression;
+                    return;
+                }
+            }
+        }
+    }
+
     private startPingTimer() {
     	console.debug('Communication::ping: restart interval');
         if (this.pingTimer) {
@@ -322,7 +453,7 @@ export default class Communication {
         // Start ping timer
         this.pingTimer = setInterval(() => {
             console.debug('Communication::ping: sent');
-            this.sendMessage(new Uint8Array(0), 'PING', 'NONE');
+            this.sendMessage(new Uint8Array(0), 'PING');
         }, 90000);
     }
 
@@ -337,7 +468,7 @@ export default class Communication {
         const dataView = new DataView(data.buffer);
 
         // set magic number and message length and hello message
-        dataView.setUint32(0, 0x2EA7D90B);
+        dataView.setUint32(0, HELLO_MAGIC);
         dataView.setUint16(4, helloMessage.length);
         for (let i=0; i<helloMessage.length; i++) {
             data[i+6] = helloMessage[i];
@@ -346,7 +477,42 @@ export default class Communication {
         this.socket.write(data);
     }
 
-    private sendMessage(message: Uint8Array, type: number | string, compression: number | string) {
+    // the least compression either side wants, block data is only compressed if both want everything compressed
+    private compressMessage(type: string) : boolean {
+        const order = [Compression.never, Compression.metadata, Compression.always];
+        const compression = order[Math.min(order.indexOf(this.compression), order.indexOf(this.peerCompression))];
+
+        return compression === Compression.always
+            || (compression === Compression.metadata && type !== 'RESPONSE');
+    }
+
+    // LZ4 block preceded by the uncompressed length, null if it doesn't make the message smaller
+    private compress(message: Uint8Array) : Uint8Array | null {
+        const compressed = new Uint8Array(message.length + 4);
+        // lz4js returns 0 when it finds nothing to compress, writes past the end of the
+        // buffer are dropped, so output that doesn't fit fails the length check
+        const length = compressBlock(message, compressed.subarray(4), 0, message.length, new Uint32Array(LZ4_HASH_SIZE));
+        if (length === 0 || length + 4 >= message.length) {
+            return null;
+        }
+
+        new DataView(compressed.buffer).setUint32(0, message.length);
+        return compressed.subarray(0, length + 4);
+    }
+
+    private sendMessage(message: Uint8Array, type: number | string) {
+        let compression = 'NONE';
+        if (typeof type === 'string' && message.length >= COMPRESSION_THRESHOLD && this.compressMessage(type)) {
+            const compressed = this.compress(message);
+            if (compressed !== null) {
+                if (this.extraDebugging) {
+                    console.debug('Communication::sendMessage: compressed', message.length, compressed.length);
+                }
+                message = compressed;
+                compression = 'LZ4';
+            }
+        }
+
         // create header
         const headerMessage = this.encodeMessage('Header', {
             type: type,
@@ -371,98 +537,102 @@ export default class Communication {
         this.socket.write(data);
     }
 
-    private async receiveMessage(data: Uint8Array) {
-        let dataOffset = 0;
-
-        // this function can receive multiple calls with parts of a single message
-        if (this.message.state === MessageState.start) {
-            const dataView = new DataView(data.buffer);
-            this.message.headerLength = dataView.getUint16(0);
-            this.message.length = dataView.getUint32(this.message.headerLength + 2);
-            // +6 for header length bytes (2) + message length bytes (4)
-            this.message.data = data.slice(this.message.headerLength + 6);
-
-            // test to see if we have received the whole message
-            if (this.message.length < this.message.data.length) {
-                console.error('Communication::receiveMessage: malformed message received, message data is larger than message length in header');
-            }
-
-            // merge protobuf message with defaults
-            const headerData = data.slice(2, this.message.headerLength + 2);
-            let header = {
-                type: 0,
-                compression: 0,
-            };
-            header = {
-                ...header,
-                ...this.decodeMessage('Header', headerData)
-            };
-
-            this.message.type = header.type;
-            this.message.compression = header.compression;
-            this.message.received = 0;
-
-            // if LZ4 compression used
-            if (this.message.compression) {
-                this.message.decompressedLength = dataView.getUint32(this.message.headerLength + 6);
+    // the LZ4 block is preceded by the decompressed length
+    private decompress(data: Uint8Array) : Uint8Array {
+        if (data.length < 4) {
+            throw new ProtocolError('compressed message too short');
+        }
 
-                if (this.extraDebugging) {
-                    console.debug('Communication::receiveMessage: message length decompressed ' + this.message.decompressedLength);
-                }
+        const decompressedLength = new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(0);
+        if (decompressedLength > MAX_MESSAGE_LENGTH) {
+            throw new ProtocolError('decompressed length ' + decompressedLength + ' is larger than maximum');
+        }
 
-                this.message.data = new Uint8Array(this.message.decompressedLength);
-                dataOffset = this.message.headerLength + 10;
+        if (this.extraDebugging) {
+            console.debug('Communication::decompress: message length decompressed ' + decompressedLength);
+        }
 
-                // decompressed message length is counted as part of message length
-                // it is not part of LZ4 block, so reduce message length
-                this.message.length -= 4;
-            }
-            else {
-                this.message.data = new Uint8Array(this.message.length);
-                dataOffset = this.message.headerLength + 6;
-            }
+        const decompressed = new Uint8Array(decompressedLength);
+        let length: number;
+        try {
+            length = decompressBlock(data, decompressed, 4, data.length - 4, 0);
+        }
+        catch (e) {
+            throw new ProtocolError('invalid LZ4 block');
+        }
+        if (length !== decompressedLength) {
+            throw new ProtocolError('LZ4 block decompressed to ' + length + ' bytes, expected ' + decompressedLength);
+        }
+        return decompressed;
+    }
 
-            if (this.extraDebugging) {
-                console.debug('Communication::receiveMessage: header length ' + this.message.headerLength);
-                console.debug('Communication::receiveMessage: message length from header ' + this.message.length);
-                console.debug('Communication::receiveMessage: message header', header);
+    private receiveFrame(frame: Frame) {
+        if (frame.hello) {
+            const hello = this.decodeMessage('Hello', frame.message);
+            console.debug('Communication::receiveFrame:', hello);
+            if (hello) {
+                this.remoteHello = {
+                    deviceName: hello['deviceName'] || '',
+                    clientName: hello['clientName'] || '',
+                    clientVersion: hello['clientVersion'] || '',
+                };
             }
+            this.event.emit('connect');
+            return;
         }
 
-        // add new data to message buffer
-        for (let i=dataOffset; i<data.length; i++) {
-            this.message.data[this.message.received++] = data[i];
-        }
+        // merge protobuf message with defaults
+        let header = {
+            type: 0,
+            compression: 0,
+        };
+        header = {
+            ...header,
+            ...this.decodeMessage('Header', frame.header)
+        };
 
         if (this.extraDebugging) {
-            console.debug('Communication::receiveMessage: message bytes ' + this.message.received);
+            console.debug('Communication::receiveFrame: message header', header, frame.message.length);
         }
 
-        if (this.message.received + dataOffset >= this.message.length) {
-            this.message.state = MessageState.start;
+        // if LZ4 compression used
+        const data = header.compression ? this.decompress(frame.message) : frame.message;
+
+        const messageString = this.typeToString(header.type);
+        if (messageString !== null) {
+            const message = this.decodeMessage(messageString, data);
 
-            // if LZ4 compression used
-            if (this.message.compression) {
-                //console.debug('Communication::receiveMessage: decompressing');
-                const decompressedData = new Uint8Array(this.message.decompressedLength)
-                decompressBlock(this.message.data, decompressedData, 0, this.message.length, 0);
-                this.message.data = decompressedData;
+            if (this.extraDebugging) {
+                console.debug(JSON.stringify(message).substr(0, 10000));
             }
 
-            const messageString = this.typeToString(this.message.type);
-            if (messageString !== null) {
-                const message = this.decodeMessage(messageString, this.message.data);
+            if (header.type === ProtocolMessage.CLUSTER_CONFIG && message) {
+                this.updatePeerCompression(<Cluster>message);
+            }
 
-                if (this.extraDebugging) {
-                    console.debug(JSON.stringify(message, null, 4));
-                    console.debug(JSON.stringify(message).substr(0, 10000));
-                }
+            this.event.emit('message', header.type, message);
+        }
+    }
+
+    // data can hold any part of one or more messages, anything that breaks the protocol closes the connection
+    private receiveData(data: Buffer) {
+        this.framer.push(data);
 
-                this.event.emit('message', this.message.type, message);
+        try {
+            let frame: Frame;
+            while ((frame = this.framer.next()) !== null) {
+                this.receiveFrame(frame);
             }
         }
-        else {
-            this.message.state = MessageState.continue;
+        catch (e) {
+            if (!(e instanceof ProtocolError)) {
+                throw e;
+            }
+
+            // the framer ignores anything else received until the next connection
+            console.error('Communication::receiveData: protocol error, closing connection', e.message);
+            this.protocolError = e;
+            this.socket.close();
         }
     }
 
@@ -473,17 +643,6 @@ export default class Communication {
         this.deviceName = deviceName;
         this.extraDebugging = extraDebugging;
 
-        this.message = {
-            type: 0,
-            compression: 0,
-            headerLength: 0,
-            length: 0,
-            decompressedLength: 0,
-            received: 0,
-            data: null,
-            state: MessageState.start
-        };
-
         const socketOptions = {
             cert: readFileSync(certPath),
             key: readFileSync(keyPath),
@@ -494,9 +653,35 @@ export default class Communication {
         console.info('Communication:: device ID is: ', this.localId.asString);
 
         this.socket = new PeerSocket(socketOptions, extraDebugging);
+
+        // the socket is reused for each connection, so only listen once
+        this.socket.on('secureConnect', () => {
+            // Hello must be sent on connect
+            this.sendHello();
+
+            // start ping timer
+            this.startPingTimer();
+        });
+
+        this.socket.on("data", (data) => {
+            this.receiveData(data);
+        });
+
+        this.socket.on('close', (error: ConnectionError) => {
+            console.log('Communication::onClose: connection closed');
+            clearInterval(this.pingTimer);
+            this.event.emit('close', this.protocolError || error);
+        });
+
+        this.socket.on('error', (error) => {
+            console.error('Communication::onError:', error);
+            clearInterval(this.pingTimer);
+            this.event.emit('error', error);
+        });
     }
 
     destructor() {
+        clearInterval(this.pingTimer);
         this.socket.destructor();
     }
 
@@ -509,49 +694,82 @@ export default class Communication {
         }
     }
 
-    async connect(url: string, peerId: DeviceId) {
+    // can be called again after the connection is lost, resolves with the address in use,
+    // which differs from url if the peer connected to us meanwhile, rejects with the reason it couldn't be started
+    async connect(url: string, peerId: DeviceId) : Promise<string> {
+        if (!this.protocol) {
+            await this.loadProtocol();
+        }
 
-        await this.loadProtocol();
-        this.socket.connect(url, peerId);
+        // anything left over from a previous connection is incomplete
+        clearInterval(this.pingTimer);
+        this.framer.reset();
+        this.protocolError = null;
+        this.remoteHello = null;
+        this.remoteId = peerId;
+        this.peerCompression = Compression.metadata;
 
-        this.socket.on('secureConnect', () => {
-            // Hello must be sent on connect
-            this.sendHello();
-
-            // start ping timer
-            this.startPingTimer();
-        });
+        return await this.socket.connect(url, peerId);
+    }
 
-        this.socket.on("data", (data) => {
-            // if in pre-auth state, look for magic number, then decode hello message
-            const dataView = new DataView(data.buffer);
-            if (dataView.getUint32(0) === 0x2EA7D90B) {
-                console.debug('Communication::onData:', this.decodeMessage('Hello', data.slice(6)));
-                this.event.emit('connect');
-            }
-            else {
-                this.receiveMessage(data);
-            }
-        });
+    // use a connection accepted by a listener, instead of connecting out
+    async accept(socket: TLSSocket, peerId: DeviceId) {
+        if (!this.protocol) {
+            await this.loadProtocol();
+        }
 
-        this.socket.on('close', () => {
-            console.log('Communication::onClose: connection closed');
-            this.event.emit('close');
-        });
+        clearInterval(this.pingTimer);
+        this.framer.reset();
+        this.protocolError = null;
+        this.remoteHello = null;
+        this.remoteId = peerId;
+        this.peerCompression = Compression.metadata;
 
-        this.socket.on('error', (error) => {
-            console.error('Communication::onError:', error);
-            this.event.emit('error', error);
-        });
+        this.socket.accept(socket, peerId);
     }
 
     on(event: string, listener: any) {
         this.event.on(event, listener);
     }
 
+    // which messages we compress, also limited by what the peer asks for in its cluster config
+    setCompression(compression: Compression) {
+        this.compression = compression;
+    }
+
+    // tell the peer why we are disconnecting, then close once it has been sent
+    close(reason: string) {
+        clearInterval(this.pingTimer);
+
+        const closeMessage = this.encodeMessage('Close', { reason });
+        this.sendMessage(closeMessage, 'CLOSE');
+        this.socket.destructor();
+    }
+
     sendClusterConfig(cluster: Cluster) {
         const clusterConfigMessage = this.encodeMessage('ClusterConfig', cluster);
-        this.sendMessage(clusterConfigMessage, 'CLUSTER_CONFIG', 'NONE');
+        this.sendMessage(clusterConfigMessage, 'CLUSTER_CONFIG');
+    }
+
+    sendIndex(index: Index, update = false) {
+        const type = update ? 'IndexUpdate' : 'Index';
+        const indexMessage = this.encodeMessage(type, index);
+
+        if (this.extraDebugging) {
+            console.debug('Communication::sendIndex: sending ' + type, index.folder);
+        }
+
+        this.sendMessage(indexMessage, update ? 'INDEX_UPDATE' : 'INDEX');
+    }
+
+    sendDownloadProgress(progress: DownloadProgress) {
+        const progressMessage = this.encodeMessage('DownloadProgress', progress);
+        this.sendMessage(progressMessage, 'DOWNLOAD_PROGRESS');
+    }
+
+    sendResponse(response: Response) {
+        const responseMessage = this.encodeMessage('Response', response);
+        this.sendMessage(responseMessage, 'RESPONSE');
     }
 
     requestBlock(blockRequest: BlockRequest) {
@@ -573,6 +791,6 @@ export default class Communication {
         }
 
         const requestMessage = this.encodeMessage('Request', request);
-        this.sendMessage(requestMessage, 'REQUEST', 'NONE');
+        this.sendMessage(requestMessage, 'REQUEST');
     }
 }
@@ -37,6 +37,15 @@ export interface Device {
     addresses: string;
     maxSequence: number;
     indexId: Uint8Array;
+    // only set on devices received in a cluster config
+    compression?: Compression;
+};
+
+// which messages are compressed, values match the protocol
+export enum Compression {
+    metadata = 0,
+    never,
+    always,
 };
 
 export interface Folder {
@@ -93,12 +102,112 @@ export interface Index {
     directories: Directory[];
 };
 
+export interface Counter {
+    // short device ID, unsigned 64 bit as decimal string
+    id: string;
+    value: number;
+};
+
+export interface Vector {
+    counters: Counter[];
+};
+
+// how one version vector relates to another
+export enum Ordering {
+    equal = 0,
+    greater,
+    lesser,
+    // each has changes the other hasn't seen
+    concurrent,
+};
+
+export enum ErrorCode {
+    noError = 0,
+    generic,
+    noSuchFile,
+    invalidFile,
+};
+
+export interface PeerRequest {
+    id: number;
+    folder: string;
+    name: string;
+    offset: number;
+    size: number;
+    hash: Uint8Array;
+};
+
 export interface Response {
     id: number;
     data: Uint8Array;
     code: number;
 }
 
+export enum ProgressUpdateType {
+    append = 0,
+    forget,
+};
+
+export interface ProgressUpdate {
+    updateType: ProgressUpdateType;
+    name: string;
+    version: string;
+    blockIndexes: number[];
+};
+
+export interface DownloadProgress {
+    folder: string;
+    updates: ProgressUpdate[];
+};
+
+// a file partly downloaded by a peer
+export interface FileProgress {
+    deviceId: string;
+    folder: string;
+    name: string;
+    version: string;
+    blockIndexes: number[];
+};
+
+export interface Close {
+    reason: string;
+};
+
+// how the peer introduced itself when it connected
+export interface Hello {
+    deviceName: string;
+    clientName: string;
+    clientVersion: string;
+};
+
+// a block written to or removed from the cache
+export interface CachedBlock {
+    folder: string;
+    name: string;
+    offset: number;
+    size: number;
+};
+
+export interface Pin {
+    path: string;
+    sync: SyncStatus;
+};
+
+export interface CacheUsage {
+    folder: string;
+    blocks: number;
+    size: number;
+    pinnedSize: number;
+};
+
+export interface SyncProgress {
+    folder: string;
+    blocks: number;
+    cachedBlocks: number;
+    size: number;
+    cachedSize: number;
+};
+
 export enum ListEntryType {
 	file = 0,
 	directory = 1,
@@ -113,3 +222,29 @@ export interface ListEntry {
 	modified: Date,
 	modifiedBy: number,
 };
+
+export enum ChangeType {
+    added = 0,
+    modified,
+    // the entry's deleted flag was set
+    deleted,
+};
+
+export interface Change {
+    type: ChangeType;
+    entryType: ListEntryType;
+    // starts with the folder path
+    path: string;
+    size: number;
+    // only known when reported as the change is made, not by changesSince
+    previousSize?: number;
+    sequence: number;
+};
+
+// entries of a folder that changed, sequence is the highest of the changes,
+// so changesSince that sequence returns anything changed later
+export interface ChangeSet {
+    folder: string;
+    sequence: number;
+    changes: Change[];
+};
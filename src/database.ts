@@ -15,11 +15,32 @@ You should have received a copy of the GNU General Public License
 along with Syncthing TS.  If not, see <https://www.gnu.org/licenses/>.
 */
 
-import { join, parse, sep } from 'path';
+import { join, parse, sep, dirname, basename, extname } from 'path';
 
-import Sql, { FileRow, DirectoryRow } from './sqlite';
-import { SyncStatus, Cluster, Folder, Device, Index, File, Directory, Block, FileFlags, ListEntry, ListEntryType  } from './constants';
+import Sql, { FileRow, DirectoryRow, FolderRow, BlockPathRow, BlockRow } from './sqlite';
+import { ErrorCode, Change, ChangeSet, ChangeType, Vector, Ordering, SyncStatus, SyncProgress, CacheUsage, Pin, Cluster, Folder, Device, Index, File, Directory, Block, FileFlags, ListEntry, ListEntryType  } from './constants';
 import { BlockRequest } from './request';
+import VersionVector from './versionVector';
+import Authentication from './authentication';
+import { NotFoundError, InvalidArgumentError, InvalidOperationError } from './errors';
+
+// permissions for files (0644) and directories (0755) created locally
+const DEFAULT_FILE_PERMISSIONS = 420;
+const DEFAULT_DIRECTORY_PERMISSIONS = 493;
+
+export interface PeerBlock {
+    code: ErrorCode;
+    blockRequest: BlockRequest | null;
+};
+
+interface LocalContext {
+    folderRow: FolderRow;
+    // next sequence to use for our changes
+    sequence: number;
+    // time of the change in ms
+    modified: number;
+    connection: any;
+};
 
 interface SplitPath {
     folder: string;
@@ -31,11 +52,17 @@ export default class Database {
 
     private sql: Sql;
     private deviceId: Uint8Array;
+    // as used in modifiedBy
+    private shortId: Uint8Array;
+    // as used in version vector counters
+    private counterId: string;
     private name: string;
     private extraDebugging: boolean;
 
     constructor(path: string, name: string, deviceId: Uint8Array, extraDebugging = false) {
         this.deviceId = deviceId;
+        this.shortId = deviceId.slice(0, 8);
+        this.counterId = VersionVector.shortId(deviceId);
         this.name = name;
         this.extraDebugging = extraDebugging;
 
@@ -48,7 +75,8 @@ export default class Database {
         this.sql.destructor();
     }
 
-    private updateBlocks(fileId: number, blocks: Block[], connection: any) {
+    // local is set when the blocks are about to be written to the cache by us
+    private updateBlocks(fileId: number, blocks: Block[], connection: any, local = false) {
 
         let updated = false;
 
@@ -73,8 +101,8 @@ export default class Database {
                             console.debug('Database::updateBlocks: updating block ' + block);
                         }
 
-                        // if already cached then we need to set it as stale
-                        if (blockRows[i].cached === 1) {
+                        // if already cached (or stale and not yet deleted) then we need to set it as stale
+                        if (blockRows[i].cached !== 0 && !local) {
                             block.cached = 2;
                         }
 
@@ -113,11 +141,64 @@ export default class Database {
         return updated;
     }
 
+    // like Syncthing, decide which of two concurrent changes keeps the name
+    private winsConflict(entry: File | Directory, entryRow: FileRow | DirectoryRow) : boolean {
+        // an invalid entry always loses
+        if ((entry.flags & FileFlags.invalid) !== (entryRow.flags & FileFlags.invalid)) {
+            return !(entry.flags & FileFlags.invalid);
+        }
+
+        // a modification always wins over a delete
+        if ((entry.flags & FileFlags.deleted) !== (entryRow.flags & FileFlags.deleted)) {
+            return !(entry.flags & FileFlags.deleted);
+        }
+
+        // then the newest change wins
+        if (entry.modifiedS !== entryRow.modifiedS) {
+            return entry.modifiedS > entryRow.modifiedS;
+        }
+        if (entry.modifiedNs !== entryRow.modifiedNs) {
+            return entry.modifiedNs > entryRow.modifiedNs;
+        }
+
+        // finally the device with the highest ID
+        return Buffer.compare(Buffer.from(entry.modifiedBy), Buffer.from(entryRow.modifiedBy)) > 0;
+    }
+
+    // name for the losing copy of a file in conflict, as Syncthing would name it
+    private conflictName(name: string, modifiedBy: Uint8Array) : string {
+        const now = new Date();
+        const pad = (value: number) => String(value).padStart(2, '0');
+        const date = now.getFullYear() + pad(now.getMonth() + 1) + pad(now.getDate())
+            + '-' + pad(now.getHours()) + pad(now.getMinutes()) + pad(now.getSeconds());
+
+        const extension = extname(name);
+        return name.substring(0, name.length - extension.length)
+            + '.sync-conflict-' + date + '-' + Authentication.shortString(modifiedBy) + extension;
+    }
+
+    // our file lost a conflict, move it out of the way of the peer's file,
+    // the row is kept so cached blocks are still found, returns the next sequence
+    private keepConflictCopy(fileRow: FileRow, sequence: number, connection: any) : number {
+        fileRow.name = this.conflictName(fileRow.name, fileRow.modifiedBy);
+        // this is a new file as far as the peer is concerned
+        fileRow.version = VersionVector.stringify(VersionVector.update({ counters: [] }, this.counterId));
+        fileRow.sequence = sequence++;
+        fileRow.modifiedBy = this.shortId;
+        this.sql.updateFile(fileRow, fileRow.directoryId, fileRow.id, connection);
+        this.sql.clearAvailability(fileRow.id, connection);
+
+        return sequence;
+    }
+
     private updateEntry(entry: File | Directory, entryRow: FileRow | DirectoryRow, parentSync: number, sequence: number, connection: any) {
         const result = {
             updated: false,
             add: false,
             update: false,
+            // our entry is newer or won a conflict, so the peer's is ignored
+            keep: false,
+            conflict: false,
             sequence: sequence,
             valid: false,
         };
@@ -132,8 +213,8 @@ export default class Database {
             }
 
             entry.sequence = result.sequence++;
-            // set sync to same as parent directory
-            entry.sync = parentSync;
+            // only full sync follows new entries, download only fetched what was there when pinned
+            entry.sync = parentSync === SyncStatus.full ? SyncStatus.full : SyncStatus.none;
             if (parentSync === SyncStatus.full) {
                 result.updated = true;
             }
@@ -142,6 +223,38 @@ export default class Database {
         }
         // else update
         else {
+            // sync is only held locally, peer always sends none so keep what we have
+            entry.sync = entryRow.sync;
+
+            // a placeholder only holds files, the directory itself hasn't changed
+            if (this.isPlaceholder(entry)) {
+                result.valid = true;
+                return result;
+            }
+
+            const ordering = VersionVector.compare(
+                VersionVector.parse(entry.version),
+                VersionVector.parse(entryRow.version)
+            );
+
+            // the peer hasn't seen our latest change yet
+            if (ordering === Ordering.lesser) {
+                result.keep = true;
+                result.valid = true;
+                return result;
+            }
+
+            // both changed the entry without seeing the other's change,
+            // the peer resolves this the same way when it sees our change
+            if (ordering === Ordering.concurrent) {
+                result.conflict = true;
+                if (!this.winsConflict(entry, entryRow)) {
+                    result.keep = true;
+                    result.valid = true;
+                    return result;
+                }
+            }
+
             // test if equal, otherwise update, ignore sequence number
             if (!this.sql.isRowEqual(entry, entryRow, ['sequence'])) {
                 entry.sequence = result.sequence++;
@@ -158,25 +271,69 @@ export default class Database {
         return result;
     }
 
-    updateIndex(index: Index) {
+    // highest sequence of the peer's entries, must be read before they are renumbered
+    private peerSequence(index: Index) : number {
+        let sequence = 0;
+        for (const directory of index.directories) {
+            sequence = Math.max(sequence, directory.sequence);
+            for (const file of directory.files) {
+                sequence = Math.max(sequence, file.sequence);
+            }
+        }
+        return sequence;
+    }
+
+    // what an entry added or updated from a peer's index means to us, null if it is
+    // a placeholder or a deleted entry we didn't have
+    private entryChange(entry: File | Directory, entryRow: FileRow | DirectoryRow | null, path: string) : Change | null {
+        const existed = this.isLive(entryRow);
+        const deleted = (entry.flags & FileFlags.deleted) !== 0;
+        if (this.isPlaceholder(entry) || (!existed && deleted)) {
+            return null;
+        }
+
+        return {
+            type: deleted ? ChangeType.deleted : existed ? ChangeType.modified : ChangeType.added,
+            entryType: this.entryType(entry),
+            path: path,
+            size: 'size' in entry && !deleted ? entry.size : 0,
+            previousSize: existed && 'size' in entryRow ? entryRow.size : 0,
+            sequence: entry.sequence,
+        };
+    }
+
+    private entryType(entry: File | Directory | FileRow | DirectoryRow) : ListEntryType {
+        if (!('size' in entry)) {
+            return ListEntryType.directory;
+        }
+        return entry.symlinkTarget ? ListEntryType.symlink : ListEntryType.file;
+    }
+
+    // onConflict is called with the path of any entry changed by both us and the peer,
+    // returns the entries that changed, throws a NotFoundError if the folder isn't ours
+    updateIndex(index: Index, peerId: Uint8Array, onConflict?: (path: string) => void) : ChangeSet {
         console.debug('Database::updateIndex: updating index', index.folder);
 
         let connection;
-        let updated = false;
+        const changes: Change[] = [];
+        // entries are numbered from the stored sequence, so the last used is one less
+        let lastSequence = -1;
+        const conflicts: string[] = [];
         try {
             // always start a transaction for multiple writes, time saving is orders of magnitude
             connection = this.sql.startTransaction();
 
             const folderRow =  this.sql.getFolder(index.folder, connection);
             if (folderRow === null) {
-                throw('no folder exists for incoming index update, ' + index.folder);
+                throw new NotFoundError('no such folder', index.folder);
             }
 
             const deviceRow = this.sql.getDevice(folderRow.id, this.deviceId, connection);
             if (deviceRow === null) {
-                throw('no device exists for this folder, ' + index.folder);
+                throw new NotFoundError('no device for folder', index.folder);
             }
             let sequence = deviceRow.maxSequenceInternal;
+            const peerSequence = this.peerSequence(index);
 
             // we have to have a root directory entry, test for and add if necessary
             const rootDirectoryRow = this.sql.getDirectory(folderRow.id, '/', connection);
@@ -217,6 +374,7 @@ export default class Database {
                 const directoryRow = this.sql.getDirectory(folderRow.id, directory.name, connection);
                 let directoryId: number;
 
+                // directories in conflict just take the winning metadata
                 const entryResult = this.updateEntry(directory, directoryRow, sync, sequence, connection);
                 if (entryResult.valid === false) {
                     continue;
@@ -238,8 +396,11 @@ export default class Database {
                     }
                 }
 
-                if (entryResult.updated) {
-                    updated = true;
+                if (entryResult.add || entryResult.update) {
+                    const change = this.entryChange(directory, directoryRow, join(sep, folderRow.path, directory.name));
+                    if (change !== null) {
+                        changes.push(change);
+                    }
                 }
                 sequence = entryResult.sequence;
 
@@ -248,11 +409,46 @@ export default class Database {
                     const fileRow = this.sql.getFile(directoryId, file.name, connection);
                     let fileId: number;
 
-                    const entryResult = this.updateEntry(file, fileRow, sync, sequence, connection);
+                    // files inherit sync from the directory they are in, updateEntry has set this
+                    const entryResult = this.updateEntry(file, fileRow, directory.sync, sequence, connection);
                     if (entryResult.valid === false) {
                         continue;
                     }
 
+                    // a file pinned for download was fetched as it was then, a new version isn't fetched
+                    if (entryResult.update && file.sync === SyncStatus.download) {
+                        file.sync = SyncStatus.none;
+                    }
+
+                    const filePath = join(sep, folderRow.path, directory.name, file.name);
+                    const change = entryResult.add || entryResult.update ? this.entryChange(file, fileRow, filePath) : null;
+
+                    if (entryResult.conflict) {
+                        conflicts.push(filePath);
+
+                        // the peer's file won, ours is kept alongside it unless it was deleted
+                        if (entryResult.update && !(fileRow.flags & FileFlags.deleted)) {
+                            entryResult.sequence = this.keepConflictCopy(fileRow, entryResult.sequence, connection);
+                            entryResult.update = false;
+                            entryResult.add = true;
+
+                            changes.push({
+                                type: ChangeType.added,
+                                entryType: this.entryType(fileRow),
+                                path: join(sep, folderRow.path, directory.name, fileRow.name),
+                                size: fileRow.size,
+                                previousSize: 0,
+                                sequence: fileRow.sequence,
+                            });
+                        }
+                    }
+
+                    // the peer doesn't have our version, so can't be asked for its blocks
+                    if (entryResult.keep) {
+                        this.sql.deleteAvailability(fileRow.id, peerId, connection);
+                        continue;
+                    }
+
                     if (entryResult.add) {
                         if (this.extraDebugging) {
                             console.debug('Database::updateIndex inserting file ', file);
@@ -269,31 +465,57 @@ export default class Database {
                         }
                     }
 
-                    if (entryResult.updated) {
-                        updated = true;
-                    }
                     sequence = entryResult.sequence;
 
-                    if (this.updateBlocks(fileId, file.blocks, connection)) {
-                        updated = true;
+                    // any other device only has an older version now
+                    if (entryResult.update) {
+                        this.sql.clearAvailability(fileId, connection);
+                    }
+                    if (!(file.flags & (FileFlags.deleted | FileFlags.invalid))) {
+                        this.sql.addAvailability(fileId, peerId, connection);
+                    }
+
+                    this.updateBlocks(fileId, file.blocks, connection);
+                    if (change !== null) {
+                        changes.push(change);
                     }
                 }
             }
 
             // update max sequence, important this is done inside transaction
-            if (updated) {
+            // any entry added or updated has used a sequence number
+            if (sequence !== deviceRow.maxSequenceInternal) {
                 this.sql.updateSequence(this.deviceId, folderRow.id, sequence, connection);
             }
 
+            // the peer's sequence is sent in our cluster config, so after reconnecting
+            // the peer only sends what has changed since
+            const peerRow = this.sql.getDevice(folderRow.id, peerId, connection);
+            if (peerRow !== null && peerSequence > peerRow.maxSequenceInternal) {
+                this.sql.updateSequence(peerId, folderRow.id, peerSequence, connection);
+            }
+
             this.sql.commitTransaction(connection);
             console.debug('Database::updateIndex: finished updating ' + index.folder);
+            lastSequence = sequence - 1;
+
+            if (typeof onConflict === 'function') {
+                for (const path of conflicts) {
+                    onConflict(path);
+                }
+            }
         }
         catch (err) {
             this.sql.rollbackTransaction(connection);
-            console.error('Database::updateIndex: ' + err);
+            console.error('Database::updateIndex: failed to update index', index.folder, err.message);
+            throw err;
         }
 
-        return updated;
+        return {
+            folder: index.folder,
+            sequence: lastSequence,
+            changes: changes,
+        };
     }
 
     getClusterConfig(peerId: Uint8Array) : Cluster {
@@ -308,9 +530,13 @@ export default class Database {
                 folders: [],
             };
 
-            // we can simplify as we enforce one peer therefore we only
-            // need to send this device and peer device info
+            // each peer is only sent the folders it shares, with this device and its own info
             for (const folderRow of folderRows) {
+                const peer = this.sql.getDevice(folderRow.id, peerId);
+                if (peer === null) {
+                    continue;
+                }
+
                 const folder: Folder = {
                     idString: folderRow.idString,
                     label: folderRow.label,
@@ -330,7 +556,6 @@ export default class Database {
                 };
                 folder.devices.push(deviceSelf);
 
-                const peer = this.sql.getDevice(folderRow.id, peerId);
                 const devicePeer: Device = {
                     id: peerId,
                     name: peer.name,
@@ -353,7 +578,8 @@ export default class Database {
         }
     }
 
-    updateClusterConfig(cluster: Cluster) {
+    // cluster config received from peerId
+    updateClusterConfig(cluster: Cluster, peerId: Uint8Array) {
 
         let connection;
         try {
@@ -384,6 +610,9 @@ export default class Database {
                     }
                 }
 
+                // sequence of our entries the peer has seen
+                let sentSequence = 0;
+
                 for (const device of folder.devices) {
                     const isSelf = this.sql.isArrayEqual(device.id, this.deviceId);
                     const deviceRow = this.sql.getDevice(folderId, device.id, connection);
@@ -391,6 +620,15 @@ export default class Database {
                     // we don't want external name, updating internal name
                     if (isSelf) {
                         device.name = this.name;
+
+                        // index id is ours, the sequence the peer has seen from us is
+                        // only valid if the peer has the same index id
+                        if (deviceRow !== null) {
+                            if (this.sql.isArrayEqual(device.indexId, deviceRow.indexId)) {
+                                sentSequence = device.maxSequence;
+                            }
+                            device.indexId = deviceRow.indexId;
+                        }
                     }
 
                     if (deviceRow === null) {
@@ -405,12 +643,17 @@ export default class Database {
                             if (!isSelf && !this.sql.isArrayEqual(device.indexId, deviceRow.indexId)) {
                                 console.debug('Database::updateClusterConfig updating device, indexId has changed');
                                 maxSequenceInternal = 0;
+                                this.sql.clearDeviceAvailability(folderId, device.id, connection);
                             }
 
                             this.sql.updateDevice(device, deviceRow.id, folderId, maxSequenceInternal, connection);
                         }
                     }
                 }
+
+                if (this.sql.getDevice(folderId, peerId, connection) !== null) {
+                    this.sql.updateSentSequence(peerId, folderId, sentSequence, connection);
+                }
             }
             this.sql.commitTransaction(connection);
         }
@@ -463,42 +706,104 @@ export default class Database {
         return splitPath;
     }
 
-    blocksToRequest(limit: number) : Block[] {
-/*    	return this.all(`SELECT block.file_id, folder.id_string AS folder_id, directory.name || '/' || file.name AS name, block.size, block.offset, block.hash
-            FROM block
-            LEFT JOIN file
-            ON block.file_id = file.id
-            LEFT JOIN directory
-            ON file.directory_id = directory.id
-            LEFT JOIN folder
-            ON directory.folder_id = folder.id
-            WHERE (block.cached = 2 OR block.cached = 0) AND file.sync > ${SyncStatus.none}
-            ORDER BY block.file_id
-            LIMIT ?`, [limit]); */
-            return [];
+    private blockPathRowsToRequests(blockRows: BlockPathRow[]) : BlockRequest[] {
+        const blockRequests : BlockRequest[] = [];
+        for (const blockRow of blockRows) {
+            blockRequests.push({
+                id: 0,
+                fileId: blockRow.fileId,
+                folder: blockRow.folder,
+                name: join(blockRow.directoryName, blockRow.fileName),
+                block: {
+                    size: blockRow.size,
+                    offset: blockRow.offset,
+                    hash: blockRow.hash,
+                    cached: blockRow.cached,
+                }
+            });
+        }
+
+        return blockRequests;
     }
 
-    blocksToDelete(limit: number) : Block[] {
-    /*    	return this.all(`SELECT block.file_id, folder.id_string AS folder_id, directory.name || '/' || file.name AS name, block.size, block.offset, block.hash
-            FROM block
-            LEFT JOIN file
-            ON block.file_id = file.id
-            LEFT JOIN directory
-            ON file.directory_id = directory.id
-            LEFT JOIN folder
-            ON directory.folder_id = folder.id
-            WHERE block.cached = 2 AND block.size = 0
-            LIMIT ?`, [limit]); */
-            return [];
+    blocksToRequest(limit: number) : BlockRequest[] {
+        return this.blockPathRowsToRequests(this.sql.getBlocksToRequest(limit));
+    }
+
+    syncProgress(folder: string) : SyncProgress {
+        const progressRow = this.sql.getSyncProgress(folder);
+        return {
+            folder: folder,
+            blocks: progressRow.blocks,
+            cachedBlocks: progressRow.cachedBlocks,
+            size: progressRow.size,
+            cachedSize: progressRow.cachedSize,
+        };
+    }
+
+    // stale blocks, the cached copy no longer matches the block in the index
+    blocksToDelete(limit: number) : BlockRequest[] {
+        return this.blockPathRowsToRequests(this.sql.getStaleBlocks(limit));
+    }
+
+    // least recently used blocks not set to sync, enough to free up size bytes
+    blocksToEvict(size: number, limit: number) : BlockRequest[] {
+        const blockRequests : BlockRequest[] = [];
+        let freed = 0;
+
+        for (const blockRequest of this.blockPathRowsToRequests(this.sql.getEvictableBlocks(limit, this.shortId))) {
+            if (freed >= size) {
+                break;
+            }
+            blockRequests.push(blockRequest);
+            freed += blockRequest.block.size;
+        }
+
+        return blockRequests;
+    }
+
+    // cached copy of block has been deleted
+    removeCachedBlock(blockRequest: BlockRequest) {
+        // zero size stale blocks are no longer part of the file, only kept to clean up the cache
+        if (blockRequest.block.cached === 2 && blockRequest.block.size === 0) {
+            this.sql.deleteBlock(blockRequest.fileId, blockRequest.block.offset);
+        }
+        else {
+            this.sql.clearBlockCached(blockRequest.fileId, blockRequest.block.offset, blockRequest.block.cached);
+        }
+    }
+
+    cacheUsage() : CacheUsage[] {
+        const cacheUsage: CacheUsage[] = [];
+        for (const usageRow of this.sql.getCacheUsage()) {
+            cacheUsage.push({
+                folder: usageRow.folder,
+                blocks: usageRow.blocks,
+                size: usageRow.size,
+                pinnedSize: usageRow.pinnedSize,
+            });
+        }
+        return cacheUsage;
     }
 
     updateBlock(blockRequest: BlockRequest) {
         this.sql.updateBlock(blockRequest.block, blockRequest.fileId, blockRequest.block.offset);
     }
 
+    // record use of cached block for least recently used eviction
+    touchBlock(blockRequest: BlockRequest) {
+        this.sql.updateBlockAccessed(blockRequest.fileId, blockRequest.block.offset, Date.now());
+    }
+
+    // throws a NotFoundError if there is no file at path
     blocksToSatisfyRead(path: string, position: number, length: number) : BlockRequest[] {
         const splitPath = this.splitPath(path);
 
+        const fileRow = this.sql.getFileParentName(splitPath.folder, splitPath.dir, splitPath.file);
+        if (!this.isLive(fileRow)) {
+            throw new NotFoundError('no such file', path);
+        }
+
         const blockRows = this.sql.getBlocksOffset(
             splitPath.folder,
             splitPath.dir,
@@ -526,11 +831,12 @@ export default class Database {
         return blockRequests;
     }
 
-    updateSync(path: string, sync: SyncStatus) : boolean {
+    // throws a NotFoundError if there is no file or directory at path
+    updateSync(path: string, sync: SyncStatus) {
         console.debug('Database::updateSync: ', path, sync);
 
         if (path === '/') {
-            return false;
+            throw new InvalidArgumentError('only paths within a folder can be synced');
         }
 
         let connection;
@@ -539,7 +845,7 @@ export default class Database {
         try {
             let splitPath = this.splitPath(path);
             if (splitPath.folder === '') {
-                throw('no folder id string in path ' + path);
+                throw new NotFoundError('no such folder', path);
             }
 
             connection = this.sql.startTransaction();
@@ -559,26 +865,745 @@ export default class Database {
                 splitPath = this.splitPath(path + sep);
                 const directoryRow = this.sql.getDirectoryFolderPath(splitPath.folder, splitPath.dir, connection);
                 if (directoryRow === null) {
-                    throw('no matching folder or file ' + path);
+                    throw new NotFoundError('no such file or directory', path);
                 }
 
-                // TODO: recursive update of all child directories and files
+                this.sql.updateDirectorySyncRecursive(directoryRow.folderId, directoryRow.name, sync, connection);
+                updated = true;
+            }
+
+            this.sql.commitTransaction(connection);
+        }
+        catch (err) {
+            this.sql.rollbackTransaction(connection);
+
+            console.error('Database::updateSync: failed to update sync', path, err.message);
+            throw err;
+        }
+    }
+
+    // only return the top of each pinned tree, everything below inherits its sync
+    pinned() : Pin[] {
+        const pins: Pin[] = [];
+        const directorySync = new Map<string, number>();
+
+        for (const directoryRow of this.sql.getPinnedDirectories()) {
+            const path = join(sep, directoryRow.folder, directoryRow.directoryName);
+            directorySync.set(path, directoryRow.sync);
+
+            // rows are ordered by name, so a parent is always seen before its children
+            if (directoryRow.directoryName === sep || directorySync.get(dirname(path)) !== directoryRow.sync) {
+                pins.push({
+                    path: path,
+                    sync: directoryRow.sync,
+                });
+            }
+        }
+
+        for (const fileRow of this.sql.getPinnedFiles()) {
+            pins.push({
+                path: join(sep, fileRow.folder, fileRow.directoryName, fileRow.fileName),
+                sync: fileRow.sync,
+            });
+        }
+
+        return pins;
+    }
+
+    private directoryFromRow(directoryRow: DirectoryRow) : Directory {
+        return {
+            name: directoryRow.name,
+            permissions: directoryRow.permissions,
+            modifiedS: directoryRow.modifiedS,
+            modifiedNs: directoryRow.modifiedNs,
+            modifiedBy: directoryRow.modifiedBy,
+            flags: directoryRow.flags,
+            sequence: directoryRow.sequence,
+            version: directoryRow.version,
+            sync: directoryRow.sync,
+            files: [],
+        };
+    }
+
+    private fileFromRow(fileRow: FileRow, blockRows: BlockRow[]) : File {
+        const file: File = {
+            name: fileRow.name,
+            size: fileRow.size,
+            permissions: fileRow.permissions,
+            modifiedS: fileRow.modifiedS,
+            modifiedNs: fileRow.modifiedNs,
+            modifiedBy: fileRow.modifiedBy,
+            flags: fileRow.flags,
+            sequence: fileRow.sequence,
+            blockSize: fileRow.blockSize,
+            version: fileRow.version,
+            symlinkTarget: fileRow.symlinkTarget,
+            sync: fileRow.sync,
+            blocks: [],
+        };
+
+        for (const blockRow of blockRows) {
+            // zero size stale blocks are no longer part of the file
+            if (blockRow.cached === 2 && blockRow.size === 0) {
+                continue;
+            }
+
+            file.blocks.push({
+                offset: blockRow.offset,
+                size: blockRow.size,
+                hash: blockRow.hash,
+                cached: blockRow.cached,
+            });
+        }
+
+        return file;
+    }
+
+    // folder and device for changes made locally, connection must be in a transaction
+    private localContext(folderPath: string, modified: number, connection: any) : LocalContext {
+        const folderRow = this.sql.getFolderPath(folderPath, connection);
+        if (folderRow === null) {
+            throw new NotFoundError('no such folder', folderPath);
+        }
+
+        const deviceRow = this.sql.getDevice(folderRow.id, this.deviceId, connection);
+        if (deviceRow === null) {
+            throw new NotFoundError('no device for folder', folderRow.idString);
+        }
+
+        return {
+            folderRow: folderRow,
+            sequence: deviceRow.maxSequenceInternal,
+            modified: modified,
+            connection: connection,
+        };
+    }
+
+    private liveDirectory(context: LocalContext, name: string) : DirectoryRow {
+        const directoryRow = this.sql.getDirectory(context.folderRow.id, name, context.connection);
+        if (directoryRow === null || directoryRow.flags & FileFlags.deleted) {
+            throw new NotFoundError('no such directory', name);
+        }
+        return directoryRow;
+    }
+
+    private isLive(entryRow: FileRow | DirectoryRow) : boolean {
+        return entryRow !== null && !(entryRow.flags & FileFlags.deleted);
+    }
+
+    // directories without a version only exist to hold files, the folder root
+    // and the parents Communication creates for files whose directory wasn't sent,
+    // an empty version is stored as null
+    private isPlaceholder(entry: File | Directory | FileRow | DirectoryRow) : boolean {
+        return !entry.version && (!entry.modifiedBy || entry.modifiedBy.length === 0);
+    }
+
+    // mark entry as changed by us, version is what we are replacing
+    private stampLocal(entry: File | Directory | FileRow | DirectoryRow, version: Vector, context: LocalContext) {
+        entry.version = VersionVector.stringify(VersionVector.update(version, this.counterId));
+        entry.sequence = context.sequence++;
+        entry.modifiedS = Math.floor(context.modified / 1000);
+        entry.modifiedNs = (context.modified % 1000) * 1000000;
+        entry.modifiedBy = this.shortId;
+    }
+
+    private deleteLocalFile(fileRow: FileRow, context: LocalContext) {
+        fileRow.flags |= FileFlags.deleted;
+        fileRow.size = 0;
+        this.stampLocal(fileRow, VersionVector.parse(fileRow.version), context);
+        this.sql.updateFile(fileRow, fileRow.directoryId, fileRow.id, context.connection);
+
+        // cached blocks are set as stale and removed from the cache later
+        this.updateBlocks(fileRow.id, [], context.connection);
+        this.sql.clearAvailability(fileRow.id, context.connection);
+    }
+
+    private moveLocalFile(fileRow: FileRow, targetDirectoryRow: DirectoryRow, targetName: string, context: LocalContext) {
+        const connection = context.connection;
+        const sourceVersion = VersionVector.parse(fileRow.version);
+        const sourceDirectoryId = fileRow.directoryId;
+        const sourceName = fileRow.name;
+
+        // if there is an entry at the target, the moved file must supersede it
+        const targetRow = this.sql.getFile(targetDirectoryRow.id, targetName, connection);
+        let targetVersion: Vector = { counters: [] };
+        if (targetRow !== null) {
+            targetVersion = VersionVector.parse(targetRow.version);
+            // free up the name, a file name can never contain a separator
+            targetRow.name = sep + targetName;
+            this.sql.updateFile(targetRow, targetRow.directoryId, targetRow.id, connection);
+        }
+
+        // move the row rather than create a new one, cached blocks are stored by file id
+        fileRow.name = targetName;
+        fileRow.directoryId = targetDirectoryRow.id;
+        fileRow.sync = Math.max(fileRow.sync, targetDirectoryRow.sync);
+        this.stampLocal(fileRow, targetVersion, context);
+        this.sql.updateFile(fileRow, targetDirectoryRow.id, fileRow.id, connection);
+        // peers only have it at the old name
+        this.sql.clearAvailability(fileRow.id, connection);
+
+        // the source name needs a deleted entry so the peer removes it,
+        // any replaced target entry is reused for this
+        if (targetRow !== null) {
+            targetRow.name = sourceName;
+            targetRow.directoryId = sourceDirectoryId;
+            targetRow.version = VersionVector.stringify(sourceVersion);
+            this.deleteLocalFile(targetRow, context);
+        }
+        else {
+            const tombstone: File = {
+                name: sourceName,
+                size: 0,
+                permissions: fileRow.permissions,
+                modifiedS: 0,
+                modifiedNs: 0,
+                modifiedBy: this.shortId,
+                flags: FileFlags.deleted,
+                sequence: 0,
+                blockSize: fileRow.blockSize,
+                version: '',
+                symlinkTarget: fileRow.symlinkTarget,
+                sync: SyncStatus.none,
+                blocks: [],
+            };
+            this.stampLocal(tombstone, sourceVersion, context);
+            this.sql.addFile(tombstone, sourceDirectoryId, connection);
+        }
+    }
+
+    private moveLocalDirectory(directoryRow: DirectoryRow, targetName: string, context: LocalContext) {
+        const connection = context.connection;
+        const folderId = context.folderRow.id;
+        const sourceRows = [directoryRow, ...this.sql.getDirectoriesBelow(folderId, directoryRow.name, connection)];
+
+        // parents are created before their children
+        for (const sourceRow of sourceRows) {
+            if (!this.isLive(sourceRow)) {
+                continue;
             }
 
+            const name = targetName + sourceRow.name.substring(directoryRow.name.length);
+            const existingRow = this.sql.getDirectory(folderId, name, connection);
+            if (this.isLive(existingRow)) {
+                throw new InvalidOperationError('directory already exists', name);
+            }
+
+            const directory: Directory = {
+                name: name,
+                permissions: sourceRow.permissions,
+                modifiedS: 0,
+                modifiedNs: 0,
+                modifiedBy: this.shortId,
+                flags: 0,
+                sequence: 0,
+                version: '',
+                sync: sourceRow.sync,
+                files: [],
+            };
+            this.stampLocal(directory, VersionVector.parse(existingRow ? existingRow.version : ''), context);
+
+            if (existingRow !== null) {
+                this.sql.updateDirectory(directory, folderId, existingRow.id, connection);
+            }
+            else {
+                this.sql.addDirectory(directory, folderId, connection);
+            }
+
+            const targetDirectoryRow = this.sql.getDirectory(folderId, name, connection);
+            for (const fileRow of this.sql.getFilesParent(sourceRow.id, connection)) {
+                if (this.isLive(fileRow)) {
+                    this.moveLocalFile(fileRow, targetDirectoryRow, fileRow.name, context);
+                }
+            }
+        }
+
+        // children are deleted before their parents
+        for (const sourceRow of sourceRows.reverse()) {
+            if (this.isLive(sourceRow)) {
+                sourceRow.flags |= FileFlags.deleted;
+                this.stampLocal(sourceRow, VersionVector.parse(sourceRow.version), context);
+                this.sql.updateDirectory(sourceRow, folderId, sourceRow.id, connection);
+            }
+        }
+    }
 
+    // id of the folder path is in
+    folderId(path: string) : string | null {
+        const folderRow = this.sql.getFolderPath(this.splitPath(path).folder);
+        return folderRow === null ? null : folderRow.idString;
+    }
+
+    // file at path with its blocks, null if it doesn't exist or is deleted
+    file(path: string) : File | null {
+        const splitPath = this.splitPath(path);
+        if (splitPath.folder === '' || splitPath.file === '') {
+            return null;
+        }
+
+        const fileRow = this.sql.getFileParentName(splitPath.folder, splitPath.dir, splitPath.file);
+        if (!this.isLive(fileRow)) {
+            return null;
+        }
+
+        return this.fileFromRow(fileRow, this.sql.getBlocks(fileRow.id));
+    }
+
+    // file written locally, returns the blocks so their data can be cached
+    updateLocalFile(path: string, size: number, blockSize: number, blocks: Block[], modified: number) : BlockRequest[] {
+        console.debug('Database::updateLocalFile: ', path, size);
+
+        let connection;
+        try {
+            const splitPath = this.splitPath(path);
+            if (splitPath.folder === '' || splitPath.file === '') {
+                throw new InvalidArgumentError('no folder or file name in path ' + path);
+            }
+
+            connection = this.sql.startTransaction();
+            const context = this.localContext(splitPath.folder, modified, connection);
+            const directoryRow = this.liveDirectory(context, splitPath.dir);
+
+            if (this.isLive(this.sql.getDirectory(context.folderRow.id, join(splitPath.dir, splitPath.file), connection))) {
+                throw new InvalidOperationError('directory exists with the same name', path);
+            }
+
+            const fileRow = this.sql.getFile(directoryRow.id, splitPath.file, connection);
+            const file: File = {
+                name: splitPath.file,
+                size: size,
+                permissions: fileRow ? fileRow.permissions : DEFAULT_FILE_PERMISSIONS,
+                modifiedS: 0,
+                modifiedNs: 0,
+                modifiedBy: this.shortId,
+                flags: 0,
+                sequence: 0,
+                blockSize: blockSize,
+                version: '',
+                symlinkTarget: '',
+                sync: fileRow ? fileRow.sync : directoryRow.sync,
+                blocks: blocks,
+            };
+            this.stampLocal(file, VersionVector.parse(fileRow ? fileRow.version : ''), context);
+
+            let fileId: number;
+            if (fileRow === null) {
+                fileId = this.sql.addFile(file, directoryRow.id, connection).lastInsertRowid;
+            }
+            else {
+                fileId = fileRow.id;
+                this.sql.updateFile(file, directoryRow.id, fileId, connection);
+            }
+
+            this.updateBlocks(fileId, file.blocks, connection, true);
+            this.sql.clearAvailability(fileId, connection);
+            this.sql.updateSequence(this.deviceId, context.folderRow.id, context.sequence, connection);
             this.sql.commitTransaction(connection);
-            return updated;
+
+            const blockRequests: BlockRequest[] = [];
+            for (const block of file.blocks) {
+                blockRequests.push({
+                    id: 0,
+                    fileId: fileId,
+                    folder: context.folderRow.idString,
+                    name: join(splitPath.dir, splitPath.file),
+                    block: block,
+                });
+            }
+            return blockRequests;
         }
         catch (err) {
             this.sql.rollbackTransaction(connection);
 
-            console.error('Database::updateSync: failed to update sync', path);
-            console.error(err);
+            console.error('Database::updateLocalFile: failed to update file', path, err.message);
+            throw err;
+        }
+    }
+
+    // throws a NotFoundError if the parent directory is missing, or an InvalidOperationError if path is taken
+    createLocalDirectory(path: string, modified: number) {
+        console.debug('Database::createLocalDirectory: ', path);
+
+        let connection;
+        try {
+            const splitPath = this.splitPath(path);
+            if (splitPath.folder === '' || splitPath.file === '') {
+                throw new InvalidArgumentError('no folder or directory name in path ' + path);
+            }
+
+            connection = this.sql.startTransaction();
+            const context = this.localContext(splitPath.folder, modified, connection);
+            const parentRow = this.liveDirectory(context, splitPath.dir);
+
+            if (this.isLive(this.sql.getFile(parentRow.id, splitPath.file, connection))) {
+                throw new InvalidOperationError('file exists with the same name', path);
+            }
+
+            const name = join(splitPath.dir, splitPath.file);
+            const directoryRow = this.sql.getDirectory(context.folderRow.id, name, connection);
+            if (this.isLive(directoryRow)) {
+                throw new InvalidOperationError('directory already exists', path);
+            }
+
+            const directory: Directory = {
+                name: name,
+                permissions: directoryRow ? directoryRow.permissions : DEFAULT_DIRECTORY_PERMISSIONS,
+                modifiedS: 0,
+                modifiedNs: 0,
+                modifiedBy: this.shortId,
+                flags: 0,
+                sequence: 0,
+                version: '',
+                sync: parentRow.sync,
+                files: [],
+            };
+            this.stampLocal(directory, VersionVector.parse(directoryRow ? directoryRow.version : ''), context);
+
+            if (directoryRow !== null) {
+                this.sql.updateDirectory(directory, context.folderRow.id, directoryRow.id, connection);
+            }
+            else {
+                this.sql.addDirectory(directory, context.folderRow.id, connection);
+            }
+
+            this.sql.updateSequence(this.deviceId, context.folderRow.id, context.sequence, connection);
+            this.sql.commitTransaction(connection);
+        }
+        catch (err) {
+            this.sql.rollbackTransaction(connection);
+
+            console.error('Database::createLocalDirectory: failed to create directory', path, err.message);
+            throw err;
+        }
+    }
+
+    // delete file or empty directory
+    deleteLocal(path: string, modified: number) {
+        console.debug('Database::deleteLocal: ', path);
+
+        let connection;
+        try {
+            const splitPath = this.splitPath(path);
+            if (splitPath.folder === '' || splitPath.file === '') {
+                throw new InvalidArgumentError('can not delete folder root ' + path);
+            }
+
+            connection = this.sql.startTransaction();
+            const context = this.localContext(splitPath.folder, modified, connection);
+            const parentRow = this.liveDirectory(context, splitPath.dir);
+
+            const fileRow = this.sql.getFile(parentRow.id, splitPath.file, connection);
+            if (this.isLive(fileRow)) {
+                this.deleteLocalFile(fileRow, context);
+            }
+            else {
+                const directoryRow = this.liveDirectory(context, join(splitPath.dir, splitPath.file));
+
+                const directoryRows = this.sql.getDirectoriesBelow(context.folderRow.id, directoryRow.name, connection);
+                const fileRows = this.sql.getFilesParent(directoryRow.id, connection);
+                if (directoryRows.some((row) => this.isLive(row)) || fileRows.some((row) => this.isLive(row))) {
+                    throw new InvalidOperationError('directory not empty', path);
+                }
+
+                directoryRow.flags |= FileFlags.deleted;
+                this.stampLocal(directoryRow, VersionVector.parse(directoryRow.version), context);
+                this.sql.updateDirectory(directoryRow, context.folderRow.id, directoryRow.id, connection);
+            }
+
+            this.sql.updateSequence(this.deviceId, context.folderRow.id, context.sequence, connection);
+            this.sql.commitTransaction(connection);
+        }
+        catch (err) {
+            this.sql.rollbackTransaction(connection);
+
+            console.error('Database::deleteLocal: failed to delete', path, err.message);
+            throw err;
+        }
+    }
+
+    // rename file or directory within a folder, replaces an existing file
+    renameLocal(from: string, to: string, modified: number) {
+        console.debug('Database::renameLocal: ', from, to);
+
+        let connection;
+        try {
+            const fromPath = this.splitPath(from);
+            const toPath = this.splitPath(to);
+            if (fromPath.file === '' || toPath.file === '') {
+                throw new InvalidArgumentError('can not rename folder root ' + from + ' ' + to);
+            }
+            if (fromPath.folder !== toPath.folder) {
+                throw new InvalidArgumentError('can not rename between folders ' + from + ' ' + to);
+            }
+
+            const fromName = join(fromPath.dir, fromPath.file);
+            const toName = join(toPath.dir, toPath.file);
+            if (fromName === toName) {
+                return;
+            }
+
+            connection = this.sql.startTransaction();
+            const context = this.localContext(fromPath.folder, modified, connection);
+            const fromParentRow = this.liveDirectory(context, fromPath.dir);
+            const toParentRow = this.liveDirectory(context, toPath.dir);
+
+            const fileRow = this.sql.getFile(fromParentRow.id, fromPath.file, connection);
+            if (this.isLive(fileRow)) {
+                if (this.isLive(this.sql.getDirectory(context.folderRow.id, toName, connection))) {
+                    throw new InvalidOperationError('can not replace directory with file', to);
+                }
+
+                this.moveLocalFile(fileRow, toParentRow, toPath.file, context);
+            }
+            else {
+                const directoryRow = this.liveDirectory(context, fromName);
+                if (toName.startsWith(fromName + sep)) {
+                    throw new InvalidArgumentError('can not move directory into itself ' + to);
+                }
+                if (this.isLive(this.sql.getFile(toParentRow.id, toPath.file, connection))) {
+                    throw new InvalidOperationError('can not replace file with directory', to);
+                }
+
+                this.moveLocalDirectory(directoryRow, toName, context);
+            }
+
+            this.sql.updateSequence(this.deviceId, context.folderRow.id, context.sequence, connection);
+            this.sql.commitTransaction(connection);
+        }
+        catch (err) {
+            this.sql.rollbackTransaction(connection);
+
+            console.error('Database::renameLocal: failed to rename', from, to, err.message);
+            throw err;
+        }
+    }
+
+    // sequence of our entries the peer has already seen,
+    // null if the folder isn't shared with the peer
+    indexSequence(folder: string, peerId: Uint8Array) : number | null {
+        const folderRow = this.sql.getFolder(folder);
+        if (folderRow === null) {
+            return null;
+        }
+
+        const deviceRow = this.sql.getDevice(folderRow.id, peerId);
+        return deviceRow === null ? null : deviceRow.sentSequence || 0;
+    }
+
+    indexSent(folder: string, peerId: Uint8Array, sequence: number) {
+        const folderRow = this.sql.getFolder(folder);
+        if (folderRow !== null) {
+            this.sql.updateSentSequence(peerId, folderRow.id, sequence);
+        }
+    }
+
+    // devices known to have our version of the file
+    fileDevices(fileId: number) : Uint8Array[] {
+        try {
+            return this.sql.getAvailability(fileId);
+        }
+        catch (err) {
+            console.error('Database::fileDevices: failed to get devices', fileId, err);
+            return [];
+        }
+    }
+
+    // entries last modified by us with a sequence after the one given
+    localIndex(folder: string, sequence: number) : Index {
+        const index: Index = {
+            folder: folder,
+            directories: [],
+        };
+
+        const folderRow = this.sql.getFolder(folder);
+        if (folderRow === null) {
+            return index;
+        }
+
+        const directories = new Map<string, Directory>();
+        for (const directoryRow of this.sql.getLocalDirectories(folderRow.id, this.shortId, sequence)) {
+            directories.set(directoryRow.name, this.directoryFromRow(directoryRow));
+        }
+
+        for (const fileRow of this.sql.getLocalFiles(folderRow.id, this.shortId, sequence)) {
+            let directory = directories.get(fileRow.directoryName);
+
+            // place holder, like a decoded index, so the directory itself is not sent
+            if (directory === undefined) {
+                directory = {
+                    name: fileRow.directoryName,
+                    permissions: 0,
+                    modifiedS: 0,
+                    modifiedNs: 0,
+                    modifiedBy: new Uint8Array(0),
+                    flags: 0,
+                    sequence: 0,
+                    version: '',
+                    sync: SyncStatus.none,
+                    files: []
+                };
+                directories.set(directory.name, directory);
+            }
+
+            directory.files.push(this.fileFromRow(fileRow, this.sql.getBlocks(fileRow.id)));
+        }
+
+        index.directories = Array.from(directories.values());
+        return index;
+    }
+
+    // entries changed by anyone after sequence, pass -1 for every entry, whether an entry
+    // was added or modified can't be told apart after the change, so both are modified
+    changesSince(folder: string, sequence: number) : ChangeSet {
+        const changeSet: ChangeSet = {
+            folder: folder,
+            sequence: sequence,
+            changes: [],
+        };
+
+        const folderRow = this.sql.getFolder(folder);
+        if (folderRow === null) {
+            throw new NotFoundError('no such folder', folder);
+        }
+
+        const entries: [FileRow | DirectoryRow, string][] = [];
+        for (const directoryRow of this.sql.getChangedDirectories(folderRow.id, sequence)) {
+            entries.push([directoryRow, join(sep, folderRow.path, directoryRow.name)]);
+        }
+        for (const fileRow of this.sql.getChangedFiles(folderRow.id, sequence)) {
+            entries.push([fileRow, join(sep, folderRow.path, fileRow.directoryName, fileRow.name)]);
+        }
+
+        for (const [entryRow, path] of entries) {
+            if (this.isPlaceholder(entryRow)) {
+                continue;
+            }
+
+            const deleted = (entryRow.flags & FileFlags.deleted) !== 0;
+            changeSet.changes.push({
+                type: deleted ? ChangeType.deleted : ChangeType.modified,
+                entryType: this.entryType(entryRow),
+                path: path,
+                size: 'size' in entryRow && !deleted ? entryRow.size : 0,
+                sequence: entryRow.sequence,
+            });
+            changeSet.sequence = Math.max(changeSet.sequence, entryRow.sequence);
+        }
+
+        changeSet.changes.sort((a, b) => a.sequence - b.sequence);
+        return changeSet;
+    }
+
+    // block requested by the peer, name is from the folder root
+    // code is the error to respond with if the block can't be found
+    blockForPeer(folder: string, name: string, offset: number) : PeerBlock {
+        const peerBlock: PeerBlock = {
+            code: ErrorCode.noSuchFile,
+            blockRequest: null,
+        };
+
+        const folderRow = this.sql.getFolder(folder);
+        if (folderRow === null) {
+            return peerBlock;
+        }
+
+        const fileRow = this.sql.getFileParentName(folderRow.path, dirname(name), basename(name));
+        if (fileRow === null || fileRow.flags & FileFlags.deleted) {
+            return peerBlock;
+        }
+
+        if (fileRow.flags & FileFlags.invalid) {
+            peerBlock.code = ErrorCode.invalidFile;
+            return peerBlock;
+        }
+
+        const blockRow = this.sql.getBlock(fileRow.id, offset);
+        if (blockRow === null || (blockRow.cached === 2 && blockRow.size === 0)) {
+            return peerBlock;
+        }
+
+        peerBlock.code = ErrorCode.noError;
+        peerBlock.blockRequest = {
+            id: 0,
+            fileId: fileRow.id,
+            folder: folder,
+            name: name,
+            block: {
+                size: blockRow.size,
+                offset: blockRow.offset,
+                hash: blockRow.hash,
+                cached: blockRow.cached,
+            }
+        };
+
+        return peerBlock;
+    }
+
+    // the peer couldn't supply a block of the file, it is marked missing from the peer,
+    // or invalid if the peer's copy is, returns true if the peer's index said it had the file,
+    // as our copy of the peer's index is then out of date
+    fileUnavailable(blockRequest: BlockRequest, peerId: Uint8Array, code: ErrorCode) : boolean {
+        let connection;
+
+        try {
+            const folderRow = this.sql.getFolder(blockRequest.folder);
+            if (folderRow === null) {
+                return false;
+            }
+
+            connection = this.sql.startTransaction();
+
+            // the file may have changed since the block was requested
+            const fileRow = this.sql.getFileParentName(folderRow.path, dirname(blockRequest.name), basename(blockRequest.name), connection);
+            if (fileRow === null || fileRow.id !== blockRequest.fileId) {
+                this.sql.commitTransaction(connection);
+                return false;
+            }
+
+            const devices = this.sql.getAvailability(fileRow.id, connection);
+            const listed = devices.some((device) => Buffer.from(device).equals(Buffer.from(peerId)));
+            this.sql.deleteAvailability(fileRow.id, peerId, connection);
+
+            // no blocks are requested for invalid files, until a peer announces a valid version
+            if (code === ErrorCode.invalidFile && !(fileRow.flags & FileFlags.invalid)) {
+                fileRow.flags |= FileFlags.invalid;
+                this.sql.updateFile(fileRow, fileRow.directoryId, fileRow.id, connection);
+            }
+
+            this.sql.commitTransaction(connection);
+            return listed;
+        }
+        catch (err) {
+            this.sql.rollbackTransaction(connection);
+            console.error('Database::fileUnavailable: failed to update file', blockRequest.name, err);
             return false;
         }
     }
 
-    // dir MUST include folder root and start with '/'
+    // the peer's whole index is sent again after reconnecting
+    resetPeerSequence(folder: string, peerId: Uint8Array) {
+        const folderRow = this.sql.getFolder(folder);
+        if (folderRow !== null) {
+            this.sql.updateSequence(peerId, folderRow.id, 0);
+        }
+    }
+
+    // file by folder ID and name within the folder, null if it doesn't exist or is deleted
+    folderFile(folder: string, name: string) : File | null {
+        const folderRow = this.sql.getFolder(folder);
+        if (folderRow === null) {
+            return null;
+        }
+
+        const fileRow = this.sql.getFileParentName(folderRow.path, dirname(name), basename(name));
+        if (!this.isLive(fileRow)) {
+            return null;
+        }
+
+        return this.fileFromRow(fileRow, this.sql.getBlocks(fileRow.id));
+    }
+
+    // dir MUST include folder root and start with '/', throws a NotFoundError if there is no directory at dir
     list(dir: string) : ListEntry[] {
         console.debug('Database::list: dir', dir);
         const list: ListEntry[] = [];
@@ -605,13 +1630,13 @@ export default class Database {
 
             const splitPath = this.splitPath(dir);
             if (splitPath.folder === '') {
-                return list;
+                throw new NotFoundError('no such folder', dir);
             }
 
             const parentDirectoryRow = this.sql.getDirectoryFolderPath(splitPath.folder, splitPath.dir);
             if (parentDirectoryRow === null || parentDirectoryRow.flags & FileFlags.deleted) {
                 console.debug('Database:list: no directory found or deleted', dir);
-                return list;
+                throw new NotFoundError('no such directory', dir);
             }
 
             console.debug('Database::list: found parent directory', parentDirectoryRow);
@@ -653,7 +1678,8 @@ export default class Database {
         return list;
     }
 
-    attributes(path: string) : ListEntry | null {
+    // throws a NotFoundError if there is no file or directory at path
+    attributes(path: string) : ListEntry {
         console.debug('Database::attributes: path', path);
         if (path === '/') {
             // we don't have an entry for root, this is the directory above all folders
@@ -671,14 +1697,14 @@ export default class Database {
             // with end separator it can only be a directory
             let dirPath = this.splitPath(path + sep);
             if (dirPath.folder === '') {
-                return null;
+                throw new NotFoundError('no such folder', path);
             }
 
             // if path doesn't end with separator, try for a file
             if (!path.endsWith(sep)) {
                 let filePath = this.splitPath(path);
                 const fileRow = this.sql.getFileParentName(filePath.folder, filePath.dir, filePath.file);
-                if (fileRow !== null && !(fileRow.flags * FileFlags.deleted)) {
+                if (fileRow !== null && !(fileRow.flags & FileFlags.deleted)) {
                     return {
                         type: ListEntryType.file,
                         name: fileRow.name,
@@ -703,7 +1729,7 @@ export default class Database {
                 };
             }
 
-            return null;
+            throw new NotFoundError('no such file or directory', path);
         }
     }
 }
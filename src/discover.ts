@@ -16,59 +16,248 @@ along with Syncthing TS.  If not, see <https://www.gnu.org/licenses/>.
 */
 
 import * as https from 'https';
+import { IncomingHttpHeaders } from 'http';
+import { isIP } from 'net';
+import { TLSSocket } from 'tls';
+import { URL } from 'url';
+
+import Authentication, { DeviceId } from './authentication';
+import QuicSocket from './quicSocket';
+import { DiscoveryIdentityError, ConnectionError, NotFoundError, ProtocolError } from './errors';
 
 export interface DiscoverReply {
     seen: string,
     addresses: string[];
 };
 
-export function discover(url: string) : Promise<DiscoverReply> {
-    // TODO: test authentication of discovery server
-    // not sure this is possible with https.get
+export interface DiscoveryServer {
+    url: string;
+    // pinned device ID of the server, replies from any other device are rejected
+    id: DeviceId;
+    lookup: boolean;
+    announce: boolean;
+};
+
+// same as Syncthing's default global discovery servers
+export const DEFAULT_DISCOVERY_SERVERS = [
+    'https://discovery.syncthing.net/v2/?noannounce&id=LYXKCHX-VI3NYZR-ALCJBHF-WMZYSPK-QG6QJA3-MPFYMSO-U56GTUK-NA2MIAW',
+    'https://discovery-v4.syncthing.net/v2/?nolookup&id=LYXKCHX-VI3NYZR-ALCJBHF-WMZYSPK-QG6QJA3-MPFYMSO-U56GTUK-NA2MIAW',
+    'https://discovery-v6.syncthing.net/v2/?nolookup&id=LYXKCHX-VI3NYZR-ALCJBHF-WMZYSPK-QG6QJA3-MPFYMSO-U56GTUK-NA2MIAW',
+];
+
+// seconds between announcements, if the server doesn't say
+const DEFAULT_REANNOUNCE = 1800;
+export const DEFAULT_ANNOUNCE_RETRY = 300;
+
+// protocols we can connect with, direct connections are tried before relays,
+// quic: only when its optional dependency is installed, otherwise peers' QUIC addresses are dropped
+const ADDRESS_PROTOCOLS = ['tcp:', 'tcp4:', 'tcp6:', 'relay:', ...(QuicSocket.available ? ['quic:', 'quic4:', 'quic6:'] : [])];
+
+function isLocalHost(hostname: string) : boolean {
+    // IPv6 hostnames are wrapped in brackets
+    const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+
+    if (host === 'localhost') {
+        return true;
+    }
+
+    if (isIP(host) === 4) {
+        const [a, b] = host.split('.').map((part) => parseInt(part));
+        return a === 10
+            || a === 127
+            || (a === 169 && b === 254)
+            || (a === 172 && b >= 16 && b <= 31)
+            || (a === 192 && b === 168);
+    }
+
+    if (isIP(host) === 6) {
+        // loopback, unique local (fc00::/7) and link local (fe80::/10)
+        return host === '::1'
+            || /^f[cd]/.test(host)
+            || /^fe[89ab]/.test(host);
+    }
+
+    return false;
+}
+
+// order addresses to try, direct before relay and LAN before WAN, TCP before QUIC
+// as Syncthing prefers it, anything we can't connect to is removed
+export function sortAddresses(addresses: string[]) : string[] {
+    const candidates = [];
+
+    for (const address of addresses) {
+        try {
+            const url = new URL(address);
+            const protocol = ADDRESS_PROTOCOLS.indexOf(url.protocol);
+            if (protocol < 0) {
+                continue;
+            }
+
+            const relay = url.protocol === 'relay:' ? 1 : 0;
+            const wan = isLocalHost(url.hostname) ? 0 : 1;
+            const quic = url.protocol.startsWith('quic') ? 1 : 0;
+            candidates.push({
+                address: address,
+                rank: relay * 4 + wan * 2 + quic,
+            });
+        }
+        catch {
+            console.error('::sortAddresses: invalid address', address);
+        }
+    }
+
+    // sort is stable, so the order from the discovery server is kept within each rank
+    return candidates
+        .sort((a, b) => a.rank - b.rank)
+        .map((candidate) => candidate.address);
+}
+
+interface DiscoveryResponse {
+    statusCode: number;
+    headers: IncomingHttpHeaders;
+    body: string;
+};
+
+// the server's certificate must match its pinned ID, checked once the TLS handshake completes
+// and before the request is sent, otherwise rejects with a DiscoveryIdentityError, or a ConnectionError
+function discoveryRequest(server: DiscoveryServer, url: string, options: https.RequestOptions, body?: string) : Promise<DiscoveryResponse> {
     return new Promise ((resolve, reject) => {
-        https.get(
+        const req = https.request(
             url,
-            // discovery servers have self signed certificates
-            // we are only getting addresses, where the id of the
-            // connected peer will be authenticated anyway
-            {  rejectUnauthorized: false },
+            {
+                ...options,
+                // discovery servers have self signed certificates,
+                // they are authenticated by their device ID instead
+                rejectUnauthorized: false,
+                // a new connection for each request, so each server is checked on its own handshake
+                agent: false,
+            },
             (res) => {
-            const { statusCode } = res;
-            const contentType = res.headers['content-type'];
-
-            if (statusCode !== 200 || !/^application\/json/.test(contentType)) {
-                // Consume response data to free up memory
-                console.error('::discover: failed to get request', url, statusCode);
-                res.resume();
-                reject();
-            }
-
             res.setEncoding('utf8');
             let rawData = '';
             res.on('data', (chunk) => {
                 rawData += chunk;
             });
             res.on('end', () => {
-                try {
-                    const discoverReply = JSON.parse(rawData);
-                    console.debug('::discover: reply', discoverReply);
-
-                    if (discoverReply.hasOwnProperty('seen')
-                    && discoverReply.hasOwnProperty('addresses')) {
-                        resolve(discoverReply);
-                    }
-                    else {
-                        reject();
-                    }
-                }
-                catch (e) {
-                    console.error('::discover: failed to parse JSON', e.message);
-                    reject();
-                }
+                resolve({
+                    statusCode: res.statusCode,
+                    headers: res.headers,
+                    body: rawData,
+                });
             });
         }).on('error', (e) => {
-            console.error('::discover: failed to make request', e);
-            reject();
+            console.error('::discoveryRequest: failed to make request', server.url, e.message);
+            reject(e instanceof DiscoveryIdentityError ? e : new ConnectionError(e.message, server.url));
+        });
+
+        // headers aren't written until the request is ended, so nothing reaches an unverified server
+        req.once('socket', (socket: TLSSocket) => {
+            socket.once('secureConnect', () => {
+                const serverId = Authentication.fromSocket(socket);
+                if (serverId.valid === false || serverId.asString !== server.id.asString) {
+                    console.error('::discoveryRequest: server ID does not match', server.url, serverId.asString);
+                    req.destroy(new DiscoveryIdentityError('discovery server device ID failed authentication', server.id.asString, serverId.asString));
+                    return;
+                }
+
+                req.end(body);
+            });
         });
     });
 }
+
+// delay in seconds from a header, or the default if it's missing
+function headerSeconds(headers: IncomingHttpHeaders, name: string, defaultSeconds: number) : number {
+    const seconds = parseInt(headers[name] as string);
+    return isNaN(seconds) || seconds <= 0 ? defaultSeconds : seconds;
+}
+
+// server addresses are URLs like Syncthing's, e.g. https://host/v2/?id=DEVICE-ID,
+// noannounce and nolookup limit what the server is used for
+export function parseDiscoveryServer(address: string) : DiscoveryServer | null {
+    try {
+        const url = new URL(address);
+        if (url.protocol !== 'https:') {
+            console.error('::parseDiscoveryServer: only https is supported', address);
+            return null;
+        }
+
+        // without an ID we can't tell who replies
+        if (!url.searchParams.has('id')) {
+            console.error('::parseDiscoveryServer: server has no device ID', address);
+            return null;
+        }
+
+        const id = Authentication.fromString(url.searchParams.get('id'));
+        if (id.valid === false) {
+            console.error('::parseDiscoveryServer: invalid server ID', address);
+            return null;
+        }
+
+        const lookup = !url.searchParams.has('nolookup');
+        const announce = !url.searchParams.has('noannounce');
+        // options are only for us, not the server
+        url.search = '';
+
+        return {
+            url: url.toString(),
+            id,
+            lookup,
+            announce,
+        };
+    }
+    catch {
+        console.error('::parseDiscoveryServer: invalid address', address);
+        return null;
+    }
+}
+
+export async function discover(server: DiscoveryServer, deviceIdString: string) : Promise<DiscoverReply> {
+    const response = await discoveryRequest(server, server.url + '?device=' + deviceIdString, { method: 'GET' });
+
+    // the server doesn't know devices that haven't announced
+    if (response.statusCode === 404) {
+        throw new NotFoundError('device not known to discovery server', deviceIdString);
+    }
+    if (response.statusCode !== 200 || !/^application\/json/.test(response.headers['content-type'])) {
+        console.error('::discover: failed to get request', server.url, response.statusCode);
+        throw new ProtocolError('lookup failed with status ' + response.statusCode);
+    }
+
+    try {
+        const discoverReply = JSON.parse(response.body);
+        console.debug('::discover: reply', discoverReply);
+
+        if (discoverReply.hasOwnProperty('seen')
+        && discoverReply.hasOwnProperty('addresses')) {
+            return discoverReply;
+        }
+    }
+    catch (e) {
+        console.error('::discover: failed to parse JSON', e.message);
+    }
+    throw new ProtocolError('invalid reply from discovery server');
+}
+
+// the server identifies us by our client certificate, resolves with the number of seconds
+// until we should announce again, as the server asks whether it accepted the announcement or not
+export async function announce(server: DiscoveryServer, addresses: string[], cert: Buffer, key: Buffer) : Promise<number> {
+    const body = JSON.stringify({ addresses });
+    const response = await discoveryRequest(server, server.url, {
+        method: 'POST',
+        cert,
+        key,
+        headers: {
+            'Content-Type': 'application/json',
+            'Content-Length': Buffer.byteLength(body),
+        },
+    }, body);
+
+    if (response.statusCode !== 204 && response.statusCode !== 200) {
+        console.error('::announce: announcement rejected', server.url, response.statusCode, response.body);
+        // the server may ask us to wait before trying again
+        return headerSeconds(response.headers, 'retry-after', DEFAULT_ANNOUNCE_RETRY);
+    }
+
+    return headerSeconds(response.headers, 'reannounce-after', DEFAULT_REANNOUNCE);
+}
@@ -0,0 +1,129 @@
+/*
+This file is part of Syncthing TS.
+
+Syncthing TS is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+Syncthing TS is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Syncthing TS.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { ErrorCode } from './constants';
+
+/*
+ * Errors thrown, rejected or emitted with error events, callers can tell
+ * them apart by class, all extend SyncthingError.
+ */
+
+export class SyncthingError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+// the address couldn't be reached, or the connection was lost,
+// cause is the error from the socket or server if there was one
+export class ConnectionError extends SyncthingError {
+    address: string;
+    cause: Error | null;
+
+    constructor(message: string, address = '', cause: Error | null = null) {
+        super(message);
+        this.address = address;
+        this.cause = cause;
+    }
+}
+
+// a device or certificate can't be trusted
+export class AuthenticationError extends SyncthingError {}
+
+// the other end of a connection is not the device we expected
+export class IdentityError extends AuthenticationError {
+    expectedId: string;
+    actualId: string;
+
+    constructor(message: string, expectedId: string, actualId: string) {
+        super(message);
+        this.expectedId = expectedId;
+        this.actualId = actualId;
+    }
+}
+
+export class PeerIdentityError extends IdentityError {}
+
+export class RelayIdentityError extends IdentityError {}
+
+export class DiscoveryIdentityError extends IdentityError {}
+
+// data from the peer doesn't follow the protocol, the connection is closed
+export class ProtocolError extends SyncthingError {}
+
+// an argument can never succeed, such as an invalid device ID
+export class InvalidArgumentError extends SyncthingError {}
+
+// no file or directory at the path
+export class NotFoundError extends SyncthingError {
+    path: string;
+
+    constructor(message: string, path = '') {
+        super(message);
+        this.path = path;
+    }
+}
+
+// the entry at the path can't be changed that way, such as creating one that already exists
+// or deleting a directory that isn't empty, or something already started is started again
+export class InvalidOperationError extends SyncthingError {
+    path: string;
+
+    constructor(message: string, path = '') {
+        super(message);
+        this.path = path;
+    }
+}
+
+// a cached block is missing or doesn't match its hash, it is fetched again and reported as a warning
+export class CacheCorruptionError extends SyncthingError {
+    path: string;
+
+    constructor(message: string, path: string) {
+        super(message);
+        this.path = path;
+    }
+}
+
+// no answer in time, after any retries
+export class TimeoutError extends SyncthingError {}
+
+// the peer answered a block request with an error code
+export class RequestError extends SyncthingError {
+    code: ErrorCode;
+
+    constructor(message: string, code = ErrorCode.generic) {
+        super(message);
+        this.code = code;
+    }
+
+    static fromCode(code: ErrorCode) : RequestError {
+        switch (code) {
+            case ErrorCode.noSuchFile:
+                return new NoSuchFileError('peer does not have the file', code);
+            case ErrorCode.invalidFile:
+                return new InvalidFileError('peer has the file marked invalid', code);
+            default:
+                return new RequestError('peer could not supply the block', code);
+        }
+    }
+}
+
+export class NoSuchFileError extends RequestError {}
+
+export class InvalidFileError extends RequestError {}
@@ -19,6 +19,14 @@ import * as fs from 'fs-extra';
 import { join, dirname } from 'path';
 import * as crypto from 'crypto';
 
+import { Block } from './constants';
+import { CacheCorruptionError } from './errors';
+
+// Syncthing block sizes, smallest block size that keeps the number of blocks under the limit
+const MIN_BLOCK_SIZE = 131072;
+const MAX_BLOCK_SIZE = 16777216;
+const DESIRED_BLOCKS = 2000;
+
 /*
  * By storing the blocks individually we can save cache space if only some blocks
  * of a large file are required.
@@ -32,6 +40,40 @@ export default class File {
         return join(cachePath, folder, fileId.toString(), offset.toString());
     }
 
+    static blockSize(size: number) : number {
+        let blockSize = MIN_BLOCK_SIZE;
+        while (blockSize < MAX_BLOCK_SIZE && size / blockSize > DESIRED_BLOCKS) {
+            blockSize *= 2;
+        }
+        return blockSize;
+    }
+
+    static hashBlocks(data: Uint8Array, blockSize: number) : Block[] {
+        const blocks: Block[] = [];
+
+        for (let offset = 0; offset < data.length; offset += blockSize) {
+            const blockData = data.subarray(offset, offset + blockSize);
+            blocks.push({
+                offset: offset,
+                size: blockData.length,
+                hash: crypto.createHash('sha256').update(blockData).digest(),
+                cached: 0,
+            });
+        }
+
+        // like Syncthing, an empty file has a single empty block
+        if (blocks.length === 0) {
+            blocks.push({
+                offset: 0,
+                size: 0,
+                hash: crypto.createHash('sha256').digest(),
+                cached: 0,
+            });
+        }
+
+        return blocks;
+    }
+
     static async writeBlock(path: string, bytes: Uint8Array) {
         let fd = 0;
         try {
@@ -49,6 +91,13 @@ export default class File {
         }
     }
 
+    static async deleteBlock(path: string) {
+        // does not fail if block has already gone
+        await fs.remove(path);
+        console.debug('File::deleteBlock: deleted ' + path);
+    }
+
+    // rejects with a CacheCorruptionError if the block can't be read or doesn't match its hash
     static async readBlock(path: string, size: number, hash: Uint8Array) : Promise<Uint8Array> {
         let fd = 0;
 
@@ -59,21 +108,23 @@ export default class File {
             const { bytesRead, temp } = await fs.read(fd, buffer, 0, size, 0);
             console.debug('File::readBlock: read: ' + bytesRead + ' from ' + path);
 
-            if (bytesRead > 0) {
-		        const fileHash = crypto.createHash('sha256').update(buffer).digest();
-		        if (!fileHash.equals(hash)) {
-			        console.debug('File::readBlock: failed hash verification ' + path);
-			        return new Uint8Array(0);
-			    }
-	        }
-			return buffer.subarray(0, bytesRead);
+            const fileHash = crypto.createHash('sha256').update(buffer.subarray(0, bytesRead)).digest();
+            if (!fileHash.equals(hash)) {
+                console.debug('File::readBlock: failed hash verification ' + path);
+                throw new CacheCorruptionError('cached block failed hash verification', path);
+            }
+            return buffer.subarray(0, bytesRead);
+        }
+        catch (err) {
+            if (err instanceof CacheCorruptionError) {
+                throw err;
+            }
+            throw new CacheCorruptionError('cached block could not be read, ' + err.message, path);
         }
         finally {
             if (fd > 0) {
                 fs.closeSync(fd);
             }
         }
-
-        return new Uint8Array(0);
     }
 }
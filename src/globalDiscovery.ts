@@ -0,0 +1,129 @@
+/*
+This file is part of Syncthing TS.
+
+Syncthing TS is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+Syncthing TS is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Syncthing TS.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { readFileSync } from 'fs';
+
+import { DiscoveryServer, DiscoverReply, DEFAULT_ANNOUNCE_RETRY, parseDiscoveryServer, discover, announce } from './discover';
+import { DeviceId } from './authentication';
+import { DiscoveryIdentityError } from './errors';
+
+/*
+ * Syncthing global discovery, devices are looked up on the configured
+ * servers, and our addresses are announced to them while listening.
+ */
+
+export default class GlobalDiscovery {
+    private servers: DiscoveryServer[] = [];
+    private cert: Buffer;
+    private key: Buffer;
+    private addresses: string[] = [];
+    private announceTimers = new Map<DiscoveryServer, any>();
+
+    private async announceTo(server: DiscoveryServer) {
+        clearTimeout(this.announceTimers.get(server));
+        this.announceTimers.delete(server);
+
+        if (this.addresses.length === 0) {
+            return;
+        }
+
+        const addresses = this.addresses;
+        let delay: number;
+        try {
+            delay = await announce(server, addresses, this.cert, this.key);
+            console.debug('GlobalDiscovery::announceTo: announced to', server.url, addresses);
+        }
+        catch (retry) {
+            console.error('GlobalDiscovery::announceTo: failed to announce to', server.url, retry instanceof Error ? retry.message : '');
+            // a server that fails authentication isn't tried again, anything else is retried later
+            delay = retry instanceof DiscoveryIdentityError ? 0 : DEFAULT_ANNOUNCE_RETRY;
+        }
+
+        // addresses or servers may have changed while announcing
+        if (this.addresses !== addresses || !this.servers.includes(server)) {
+            return;
+        }
+
+        if (delay > 0) {
+            this.announceTimers.set(server, setTimeout(() => {
+                this.announceTo(server);
+            }, delay * 1000));
+        }
+    }
+
+    private clearTimers() {
+        for (const timer of this.announceTimers.values()) {
+            clearTimeout(timer);
+        }
+        this.announceTimers.clear();
+    }
+
+    private announceAll() {
+        for (const server of this.servers) {
+            if (server.announce) {
+                this.announceTo(server);
+            }
+        }
+    }
+
+    constructor(servers: string[], certPath: string, keyPath: string) {
+        this.cert = readFileSync(certPath);
+        this.key = readFileSync(keyPath);
+        this.setServers(servers);
+    }
+
+    destructor() {
+        this.addresses = [];
+        this.clearTimers();
+    }
+
+    // returns false if any server address is invalid, the valid ones are still used
+    setServers(servers: string[]) : boolean {
+        this.clearTimers();
+
+        const parsed = servers.map((server) => parseDiscoveryServer(server));
+        this.servers = parsed.filter((server) => server !== null);
+        this.announceAll();
+        return this.servers.length === parsed.length;
+    }
+
+    // addresses we can be reached on, announcing stops if empty
+    setAddresses(addresses: string[]) {
+        this.addresses = addresses;
+        this.announceAll();
+    }
+
+    // addresses from the first server that knows the device
+    async lookup(deviceId: DeviceId) : Promise<string[]> {
+        for (const server of this.servers) {
+            if (!server.lookup) {
+                continue;
+            }
+
+            try {
+                const discoverReply: DiscoverReply = await discover(server, deviceId.asString);
+                if (discoverReply.addresses.length > 0) {
+                    return discoverReply.addresses;
+                }
+            }
+            catch (e) {
+                console.error('GlobalDiscovery::lookup: lookup failed', server.url, e instanceof Error ? e.message : '');
+            }
+        }
+        return [];
+    }
+}
@@ -0,0 +1,106 @@
+/*
+This file is part of Syncthing TS.
+
+Syncthing TS is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+Syncthing TS is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Syncthing TS.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { readFileSync } from 'fs';
+import { Server, TLSSocket, createServer } from 'tls';
+import { EventEmitter } from 'events';
+
+import Authentication, { DeviceId } from './authentication';
+import { ConnectionError } from './errors';
+
+/*
+ * Accepts BEP connections from other devices. Only devices that are allowed
+ * are passed on, as a connection event with the socket and their device ID.
+ */
+
+export default class Listener {
+    private server: Server;
+    private allowed: Set<string>;
+    private event = new EventEmitter();
+
+    private onConnection(socket: TLSSocket) {
+        const peerId = Authentication.fromSocket(socket);
+        if (peerId.valid === false || !this.allowed.has(peerId.asString)) {
+            console.error('Listener::onConnection: device not allowed', peerId.asString, socket.remoteAddress);
+            socket.destroy();
+            return;
+        }
+
+        console.info('Listener::onConnection: accepted device', peerId.asString, socket.remoteAddress);
+        this.event.emit('connection', socket, peerId);
+    }
+
+    constructor(certPath: string, keyPath: string, allowedDeviceIds: string[]) {
+        this.allowed = new Set();
+        for (const deviceId of allowedDeviceIds) {
+            const id = Authentication.fromString(deviceId);
+            if (id.valid) {
+                this.allowed.add(id.asString);
+            }
+            else {
+                console.error('Listener:: invalid allowed device ID', deviceId);
+            }
+        }
+
+        this.server = createServer({
+            cert: readFileSync(certPath),
+            key: readFileSync(keyPath),
+            // devices use self signed certificates, they are checked against the allowed IDs instead
+            requestCert: true,
+            rejectUnauthorized: false,
+            ALPNProtocols: ['bep/1.0'],
+        });
+
+        this.server.on('secureConnection', (socket: TLSSocket) => {
+            this.onConnection(socket);
+        });
+
+        this.server.on('tlsClientError', (error) => {
+            console.error('Listener:: TLS error from client', error.message);
+        });
+
+        // an error event without a listener would be thrown, failing to listen is also reported by listen
+        this.server.on('error', (error) => {
+            console.error('Listener:: server error', error.message);
+        });
+    }
+
+    destructor() {
+        this.server.close();
+    }
+
+    // rejects with a ConnectionError if the port can't be listened on, such as when it is in use
+    listen(port: number, host?: string) : Promise<void> {
+        return new Promise((resolve, reject) => {
+            const address = 'tcp://' + (!host ? '0.0.0.0' : host.includes(':') ? '[' + host + ']' : host) + ':' + port;
+            const onError = (error: Error) => {
+                reject(new ConnectionError('failed to listen, ' + error.message, address, error));
+            };
+
+            this.server.once('error', onError);
+            this.server.listen(port, host, () => {
+                this.server.removeListener('error', onError);
+                console.info('Listener::listen: listening on port', port);
+                resolve();
+            });
+        });
+    }
+
+    on(event: string, listener: any) {
+        this.event.on(event, listener);
+    }
+}
@@ -0,0 +1,286 @@
+/*
+This file is part of Syncthing TS.
+
+Syncthing TS is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+Syncthing TS is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Syncthing TS.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { createSocket, Socket, RemoteInfo } from 'dgram';
+import { networkInterfaces } from 'os';
+import { EventEmitter } from 'events';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+import Long from 'long';
+
+import { load, Root } from 'protobufjs';
+
+import Authentication, { DeviceId } from './authentication';
+import { ConnectionError } from './errors';
+
+const LOCAL_DISCOVERY_PORT = 21027;
+const LOCAL_DISCOVERY_MULTICAST = 'ff12::8384';
+const LOCAL_DISCOVERY_MAGIC = 0x2EA7D90B;
+// announcements are sent this often, and remembered for three times as long
+const ANNOUNCE_INTERVAL = 30000;
+const CACHE_LIFETIME = 3 * ANNOUNCE_INTERVAL;
+
+interface LocalDevice {
+    addresses: string[];
+    instanceId: string;
+    seen: number;
+};
+
+/*
+ * Syncthing local discovery, devices announce their addresses on the LAN
+ * using IPv4 broadcast and IPv6 multicast.
+ */
+
+export default class LocalDiscovery {
+    private protocol: Root;
+    private deviceId: DeviceId;
+    private instanceId: Long;
+    private addresses: string[] = [];
+    private socket4: Socket;
+    private socket6: Socket;
+    private announceTimer: any;
+    private devices = new Map<string, LocalDevice>();
+    private event = new EventEmitter();
+    private extraDebugging: boolean;
+
+    private encodeAnnounce() : Uint8Array {
+        const announceProto = this.protocol.lookupType('discover.Announce');
+        const message = announceProto.encode(announceProto.create({
+            id: this.deviceId.asBytes,
+            addresses: this.addresses,
+            instanceId: this.instanceId,
+        })).finish();
+
+        const data = new Uint8Array(message.length + 4);
+        new DataView(data.buffer).setUint32(0, LOCAL_DISCOVERY_MAGIC);
+        data.set(message, 4);
+        return data;
+    }
+
+    // an unspecified host means the address the announcement came from
+    private resolveAddress(address: string, remote: RemoteInfo) : string | null {
+        const match = /^([a-z0-9]+):\/\/(\[[^\]]*\]|[^\/:]*)(:\d+)?(.*)$/i.exec(address);
+        if (match === null) {
+            return null;
+        }
+
+        const host = match[2];
+        if (host !== '' && host !== '0.0.0.0' && host !== '[::]') {
+            return address;
+        }
+
+        // link local addresses need a zone, which can't be used in a URL
+        if (remote.address.includes('%')) {
+            return null;
+        }
+
+        const remoteHost = remote.family === 'IPv6' ? '[' + remote.address + ']' : remote.address;
+        return match[1] + '://' + remoteHost + (match[3] || '') + match[4];
+    }
+
+    private onMessage(data: Buffer, remote: RemoteInfo) {
+        if (data.length < 4 || data.readUInt32BE(0) !== LOCAL_DISCOVERY_MAGIC) {
+            if (this.extraDebugging) {
+                console.debug('LocalDiscovery::onMessage: not an announcement', remote.address);
+            }
+            return;
+        }
+
+        try {
+            const announceProto = this.protocol.lookupType('discover.Announce');
+            const announce: any = announceProto.toObject(announceProto.decode(data.subarray(4)), {
+                longs: String,
+                arrays: true,
+            });
+
+            const id = Authentication.fromBytes(announce.id);
+            if (id.valid === false || id.asString === this.deviceId.asString) {
+                return;
+            }
+
+            // announcements arrive over both IPv4 and IPv6, so addresses from the same
+            // instance are combined, a new instance means the device restarted
+            const now = Date.now();
+            const existing = this.devices.get(id.asString);
+            const current = existing
+                && now - existing.seen <= CACHE_LIFETIME
+                && existing.instanceId === announce.instanceId;
+
+            const addresses: string[] = current ? existing.addresses.slice() : [];
+            for (const address of announce.addresses) {
+                const resolved = this.resolveAddress(address, remote);
+                if (resolved !== null && !addresses.includes(resolved)) {
+                    addresses.push(resolved);
+                }
+            }
+
+            const changed = !current || addresses.some((address) => !existing.addresses.includes(address));
+
+            this.devices.set(id.asString, {
+                addresses: addresses,
+                instanceId: announce.instanceId,
+                seen: now,
+            });
+
+            if (changed) {
+                console.debug('LocalDiscovery::onMessage: discovered', id.asString, addresses);
+                this.event.emit('discovered', id.asString, addresses);
+            }
+        }
+        catch (e) {
+            console.error('LocalDiscovery::onMessage: invalid announcement from', remote.address, e);
+        }
+    }
+
+    private announce() {
+        if (this.addresses.length === 0) {
+            return;
+        }
+
+        const packet = this.encodeAnnounce();
+        const onSent = (error) => {
+            if (error) {
+                console.error('LocalDiscovery::announce: failed to send', error.message);
+            }
+        };
+
+        if (this.socket4) {
+            this.socket4.send(packet, LOCAL_DISCOVERY_PORT, '255.255.255.255', onSent);
+        }
+
+        // multicast is sent on each interface that has IPv6
+        if (this.socket6) {
+            const interfaces = networkInterfaces();
+            for (const name of Object.keys(interfaces)) {
+                if (interfaces[name].some((address) => address.family === 'IPv6' && !address.internal)) {
+                    this.socket6.send(packet, LOCAL_DISCOVERY_PORT, LOCAL_DISCOVERY_MULTICAST + '%' + name, onSent);
+                }
+            }
+        }
+    }
+
+    // rejects with the socket's error if the port can't be bound
+    private bind(type: 'udp4' | 'udp6') : Promise<Socket> {
+        return new Promise((resolve, reject) => {
+            // Syncthing may be running on this device, so share the port
+            const socket = createSocket({
+                type: type,
+                reuseAddr: true,
+                ipv6Only: type === 'udp6',
+            });
+
+            const onError = (error: Error) => {
+                console.error('LocalDiscovery::bind: failed to bind', type, error.message);
+                socket.close();
+                reject(error);
+            };
+
+            socket.once('error', onError);
+            socket.on('message', (data, remote) => {
+                this.onMessage(data, remote);
+            });
+
+            socket.bind(LOCAL_DISCOVERY_PORT, () => {
+                socket.removeListener('error', onError);
+                socket.on('error', (error) => {
+                    console.error('LocalDiscovery:: socket error', type, error.message);
+                });
+
+                try {
+                    if (type === 'udp4') {
+                        socket.setBroadcast(true);
+                    }
+                    else {
+                        socket.addMembership(LOCAL_DISCOVERY_MULTICAST);
+                    }
+                }
+                catch (e) {
+                    console.error('LocalDiscovery::bind: can not receive announcements', type, e.message);
+                }
+
+                resolve(socket);
+            });
+        });
+    }
+
+    constructor(deviceId: DeviceId, extraDebugging = false) {
+        this.deviceId = deviceId;
+        this.extraDebugging = extraDebugging;
+        // lets other devices tell when we have restarted
+        this.instanceId = Long.fromBytesBE(Array.from(randomBytes(8)));
+    }
+
+    destructor() {
+        clearInterval(this.announceTimer);
+
+        if (this.socket4) {
+            this.socket4.close();
+        }
+        if (this.socket6) {
+            this.socket6.close();
+        }
+    }
+
+    // listens for announcements over IPv4 and IPv6, rejects with a ConnectionError
+    // if neither can be used, otherwise whichever works is used
+    async start() : Promise<void> {
+        this.protocol = await load(join(__dirname, 'local.proto'));
+
+        let cause: Error | null = null;
+        try {
+            this.socket4 = await this.bind('udp4');
+        }
+        catch (e) {
+            cause = e;
+        }
+        try {
+            this.socket6 = await this.bind('udp6');
+        }
+        catch (e) {
+            cause = e;
+        }
+        if (!this.socket4 && !this.socket6) {
+            throw new ConnectionError('failed to listen for local discovery, ' + cause.message, 'udp://:' + LOCAL_DISCOVERY_PORT, cause);
+        }
+
+        this.announceTimer = setInterval(() => {
+            this.announce();
+        }, ANNOUNCE_INTERVAL);
+        this.announce();
+    }
+
+    // addresses we can be reached on, nothing is announced until these are set
+    setAddresses(addresses: string[]) {
+        this.addresses = addresses;
+        if (this.protocol) {
+            this.announce();
+        }
+    }
+
+    // addresses the device has announced recently
+    lookup(deviceIdString: string) : string[] {
+        const device = this.devices.get(deviceIdString);
+        if (!device || Date.now() - device.seen > CACHE_LIFETIME) {
+            return [];
+        }
+        return device.addresses;
+    }
+
+    on(event: string, listener: any) {
+        this.event.on(event, listener);
+    }
+}
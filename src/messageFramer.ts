@@ -0,0 +1,153 @@
+/*
+This file is part of Syncthing TS.
+
+Syncthing TS is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+Syncthing TS is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Syncthing TS.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { ProtocolError } from './errors';
+
+// magic number that starts the Hello message
+export const HELLO_MAGIC = 0x2EA7D90B;
+// same limit as Syncthing, anything larger is treated as a broken connection
+export const MAX_MESSAGE_LENGTH = 500 * 1024 * 1024;
+
+export interface Frame {
+    // the Hello message sent before anything else
+    hello: boolean;
+    header: Uint8Array;
+    message: Uint8Array;
+};
+
+/*
+ * Splits received data into BEP messages. Data can arrive in any size of chunk,
+ * so messages may be split across chunks or several may be in one chunk.
+ */
+
+export default class MessageFramer {
+    private chunks: Buffer[] = [];
+    private length = 0;
+    private helloReceived = false;
+    private failed = false;
+
+    // first n bytes as one buffer, null until that much has arrived
+    private peek(n: number) : Buffer | null {
+        if (this.length < n) {
+            return null;
+        }
+        if (this.chunks[0].length < n) {
+            this.chunks = [Buffer.concat(this.chunks, this.length)];
+        }
+        return this.chunks[0];
+    }
+
+    private consume(n: number) {
+        this.chunks[0] = this.chunks[0].subarray(n);
+        if (this.chunks[0].length === 0) {
+            this.chunks.shift();
+        }
+        this.length -= n;
+    }
+
+    private fail(message: string) : never {
+        this.failed = true;
+        this.chunks = [];
+        this.length = 0;
+        throw new ProtocolError(message);
+    }
+
+    // Hello is 4 bytes magic, 2 bytes length, then the message
+    private readHello() : Frame | null {
+        const start = this.peek(6);
+        if (start === null) {
+            return null;
+        }
+
+        if (start.readUInt32BE(0) !== HELLO_MAGIC) {
+            this.fail('connection did not start with hello');
+        }
+
+        const length = start.readUInt16BE(4);
+        const data = this.peek(6 + length);
+        if (data === null) {
+            return null;
+        }
+
+        const frame = {
+            hello: true,
+            header: new Uint8Array(0),
+            message: Uint8Array.from(data.subarray(6, 6 + length)),
+        };
+        this.consume(6 + length);
+        this.helloReceived = true;
+        return frame;
+    }
+
+    // messages are 2 bytes header length, the header, 4 bytes message length, then the message
+    private readMessage() : Frame | null {
+        const start = this.peek(2);
+        if (start === null) {
+            return null;
+        }
+
+        const headerLength = start.readUInt16BE(0);
+        const lengths = this.peek(headerLength + 6);
+        if (lengths === null) {
+            return null;
+        }
+
+        const messageLength = lengths.readUInt32BE(headerLength + 2);
+        if (messageLength > MAX_MESSAGE_LENGTH) {
+            this.fail('message length ' + messageLength + ' is larger than maximum');
+        }
+
+        const total = headerLength + 6 + messageLength;
+        const data = this.peek(total);
+        if (data === null) {
+            return null;
+        }
+
+        // copied, so the frame doesn't hold on to the rest of the received data
+        const frame = {
+            hello: false,
+            header: Uint8Array.from(data.subarray(2, headerLength + 2)),
+            message: Uint8Array.from(data.subarray(headerLength + 6, total)),
+        };
+        this.consume(total);
+        return frame;
+    }
+
+    // call at the start of each connection
+    reset() {
+        this.chunks = [];
+        this.length = 0;
+        this.helloReceived = false;
+        this.failed = false;
+    }
+
+    push(data: Buffer) {
+        if (!this.failed) {
+            this.chunks.push(data);
+            this.length += data.length;
+        }
+    }
+
+    // next complete message, null if more data is needed, throws a ProtocolError if
+    // the data can't be BEP messages, after which nothing more is read until reset
+    next() : Frame | null {
+        if (this.failed) {
+            return null;
+        }
+        return this.helloReceived ? this.readMessage() : this.readHello();
+    }
+}
@@ -0,0 +1,282 @@
+/*
+This file is part of Syncthing TS.
+
+Syncthing TS is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+Syncthing TS is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Syncthing TS.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { EventEmitter } from 'events';
+import { TLSSocket } from 'tls';
+
+import Communication, { ProtocolMessage } from './communication';
+import { Close } from './constants';
+import { DeviceId } from './authentication';
+import { SyncthingError, ConnectionError } from './errors';
+
+// delay before reconnecting doubles on each failed attempt, between these limits
+const RECONNECT_DELAY_MIN = 1000;
+const RECONNECT_DELAY_MAX = 300000;
+
+// reasons Syncthing gives when it will be back shortly, anything else means the peer doesn't want us now
+const TRANSIENT_CLOSE_REASONS = /restart|shutting down|replacing connection|timeout/i;
+
+// addresses of the device, in the order they should be tried
+export type AddressResolver = (id: DeviceId) => Promise<string[]>;
+
+/*
+ * A device we exchange indexes and blocks with, each has its own connection
+ * which is made again whenever it is lost.
+ */
+
+export default class Peer {
+    // address as passed to connect, so dynamic peers are discovered again on reconnect,
+    // null if we only wait for the peer to connect to us
+    private url: string | null;
+    private reconnectTimer: any;
+    private reconnectAttempts = 0;
+    private stopped = false;
+    private connecting = false;
+    // reason the peer gave for closing the connection, until the next connection
+    private closeReason: string | null = null;
+    // reason we gave for closing the connection
+    private disconnectReason: string | null = null;
+    // the socket error was emitted, so the close that follows it isn't reported again
+    private errorEmitted = false;
+    // sources of addresses for dynamic peers, in the order they are tried
+    private resolvers: AddressResolver[];
+    private event = new EventEmitter();
+
+    id: DeviceId;
+    communication: Communication;
+    // address of the current connection
+    address: string;
+    // set once cluster configs have been exchanged
+    connected = false;
+
+    // connects to the first address that authenticates, returns null once connected
+    // or why the last address failed
+    private async connectAny(addresses: string[], tried: Set<string>) : Promise<SyncthingError | null> {
+        let error: SyncthingError = new ConnectionError('no addresses to try');
+
+        for (const address of addresses) {
+            // destructor may have been called while connecting
+            if (this.stopped) {
+                return new ConnectionError('stopped', address);
+            }
+            if (tried.has(address)) {
+                continue;
+            }
+            tried.add(address);
+
+            try {
+                // a connection the peer made to us meanwhile is kept instead
+                this.address = await this.communication.connect(address, this.id);
+                console.info('Peer::connectAny: connected to', this.address);
+                return null;
+            }
+            catch (err) {
+                console.error('Peer::connectAny: failed to connect', address, err.message);
+                error = err instanceof SyncthingError ? err : new ConnectionError(err.message, address);
+            }
+        }
+        return error;
+    }
+
+    // returns null once connected, or why it couldn't connect, in which case it tries again later
+    private async tryConnect() : Promise<SyncthingError | null> {
+        if (this.url === null || this.connecting) {
+            return null;
+        }
+
+        this.connecting = true;
+        const tried = new Set<string>();
+        let error: SyncthingError | null = new ConnectionError('could not discover address for peer');
+
+        const dynamic = this.url === 'dynamic';
+        if (!dynamic) {
+            error = await this.connectAny([this.url], tried);
+        }
+
+        // if set to dynamic, ask each resolver in turn, local discovery before global,
+        // otherwise fall back to any relays the peer has advertised
+        for (const resolve of this.resolvers) {
+            if (error === null || this.stopped) {
+                break;
+            }
+
+            try {
+                const addresses = await resolve(this.id);
+                const relayAddresses = addresses.filter((address) => address.startsWith('relay://'));
+                if (dynamic ? addresses.length : relayAddresses.length) {
+                    error = await this.connectAny(dynamic ? addresses : relayAddresses, tried);
+                }
+            }
+            catch (e) {
+                console.error('Peer::tryConnect: discovery failed', e);
+            }
+        }
+
+        if (tried.size === 0) {
+            console.error('Peer::tryConnect: could not discover address for peer');
+        }
+
+        this.connecting = false;
+
+        if (error !== null && !this.stopped) {
+            this.event.emit('error', error);
+            this.scheduleReconnect();
+        }
+        return error;
+    }
+
+    // signalled once for each connection that got as far as exchanging cluster configs,
+    // with the reason either side gave for closing it, or why it was lost
+    private disconnected(error: SyncthingError) {
+        if (this.connected) {
+            this.connected = false;
+            const reason = this.closeReason !== null ? this.closeReason : this.disconnectReason !== null ? this.disconnectReason : error.message;
+            this.event.emit('disconnected', reason);
+        }
+
+        // the peer refused us, so don't try again until the longest delay
+        if (this.closeReason !== null && !TRANSIENT_CLOSE_REASONS.test(this.closeReason)) {
+            this.reconnectAttempts = Math.max(this.reconnectAttempts, Math.ceil(Math.log2(RECONNECT_DELAY_MAX / RECONNECT_DELAY_MIN)));
+        }
+        this.closeReason = null;
+        this.disconnectReason = null;
+
+        this.scheduleReconnect();
+    }
+
+    // exponential backoff, with jitter so many clients don't all retry at once
+    private scheduleReconnect() {
+        if (this.stopped || this.reconnectTimer || this.url === null) {
+            return;
+        }
+
+        const delay = Math.min(RECONNECT_DELAY_MAX, RECONNECT_DELAY_MIN * Math.pow(2, this.reconnectAttempts));
+        const jitteredDelay = Math.round(delay / 2 + Math.random() * delay / 2);
+        this.reconnectAttempts++;
+        console.debug('Peer::scheduleReconnect: reconnecting in', jitteredDelay, this.reconnectAttempts);
+
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = undefined;
+            this.tryConnect();
+        }, jitteredDelay);
+    }
+
+    constructor(id: DeviceId, url: string | null, resolvers: AddressResolver[], certPath: string, keyPath: string, name: string, extraDebugging = false) {
+        this.id = id;
+        this.url = url;
+        this.resolvers = resolvers;
+        this.communication = new Communication(certPath, keyPath, name, extraDebugging);
+
+        this.communication.on('message', (type, message) => {
+            if (type === ProtocolMessage.CLOSE) {
+                const reason = message ? (<Close>message).reason : '';
+                console.info('Peer:: peer closed connection', this.id.asString, reason);
+                this.closeReason = reason;
+                return;
+            }
+
+            this.event.emit('message', type, message);
+        });
+
+        this.communication.on('error', (error: SyncthingError) => {
+            this.errorEmitted = true;
+            this.event.emit('error', error);
+            this.disconnected(error);
+        });
+
+        this.communication.on('close', (error: SyncthingError) => {
+            // closing because either side asked to is only signalled as disconnected
+            const expected = this.stopped || this.closeReason !== null || this.disconnectReason !== null;
+            if (!expected && !this.errorEmitted) {
+                this.event.emit('error', error);
+            }
+            this.errorEmitted = false;
+            this.disconnected(error);
+        });
+    }
+
+    destructor() {
+        this.stopped = true;
+        clearTimeout(this.reconnectTimer);
+        this.communication.destructor();
+    }
+
+    // send the reason to the peer before closing, and stop reconnecting
+    disconnect(reason: string) {
+        this.stopped = true;
+        clearTimeout(this.reconnectTimer);
+
+        if (this.connected) {
+            this.disconnectReason = reason;
+            this.communication.close(reason);
+        }
+        else {
+            this.communication.destructor();
+        }
+    }
+
+    // close the connection but keep reconnecting, the peer sends its index again on the new connection
+    reconnect(reason: string) {
+        if (this.connected) {
+            this.disconnectReason = reason;
+            this.communication.close(reason);
+        }
+    }
+
+    // keeps trying to connect, and reconnects if the connection is lost,
+    // rejects with why the first attempt failed while it carries on trying
+    async connect() {
+        this.reconnectAttempts = 0;
+        clearTimeout(this.reconnectTimer);
+        this.reconnectTimer = undefined;
+
+        const error = await this.tryConnect();
+        if (error !== null) {
+            throw error;
+        }
+    }
+
+    // the peer connected to our listener
+    async accept(socket: TLSSocket) {
+        clearTimeout(this.reconnectTimer);
+        this.reconnectTimer = undefined;
+
+        const host = socket.remoteFamily === 'IPv6' ? '[' + socket.remoteAddress + ']' : socket.remoteAddress;
+        this.address = 'tcp://' + host + ':' + socket.remotePort;
+        await this.communication.accept(socket, this.id);
+    }
+
+    // new addresses were discovered, so there's no need to wait for the next attempt
+    discovered() {
+        if (this.url !== 'dynamic' || this.connected || this.connecting || this.stopped) {
+            return;
+        }
+
+        // failures are emitted as errors, and the next attempt scheduled as usual
+        this.connect().catch(() => {});
+    }
+
+    // cluster configs have been exchanged, so the connection can be used
+    established() {
+        this.connected = true;
+        this.reconnectAttempts = 0;
+    }
+
+    on(event: string, listener: any) {
+        this.event.on(event, listener);
+    }
+}
@@ -21,173 +21,27 @@ import { EventEmitter } from 'events';
 import { URL } from 'url';
 
 import Authentication, { DeviceId } from './authentication';
+import QuicSocket from './quicSocket';
+import { SyncthingError, ConnectionError, PeerIdentityError, RelayIdentityError } from './errors';
+import { RelayMessageType, RelayResponseCode, RelayMessage, ResponseMessage, SessionInvitationMessage,
+    relayDecodeMessage, relayResponseError, relayConnectRequest, relayJoinSessionRequest } from './relayProtocol';
 
-enum RelayMessageType {
-    JoinSessionRequest = 3,
-    Response = 4,
-    ConnectRequest = 5,
-    SessionInvitation = 6,
-};
-
-enum SessionJoinResponse {
-    ResponseNotFound = 1,
-    ResponseAlreadyConnected = 2,
-    ResponseSuccess = 3,
-};
-
-interface RelayMessage {
-    type: number;
-    length: number;
-    data: Uint8Array;
-    message: SessionInvitationMessage | ResponseMessage
-};
-
-interface ResponseMessage {
-    code: number;
-    messageLength: number;
-    message: Uint8Array;
-};
-
-interface SessionInvitationMessage {
-    fromLength: number;
-    from: Uint8Array;
-    keyLength: number;
-    key: Uint8Array;
-    addressLength: number;
-    address: Uint8Array;
-    port: number;
-};
+// time allowed for each address to complete TLS and authentication
+const CONNECT_TIMEOUT = 10000;
 
 export default class PeerSocket {
     private extraDebugging: boolean;
     private socketOptions: TLSSocketOptions;
     private insecureSocket: Socket;
-    private socket: TLSSocket;
+    private socket: TLSSocket | QuicSocket;
 
     private event = new EventEmitter();
 
     private peerId: DeviceId;
+    // address of the current connection, reported with connection errors
+    private address = '';
 
-
-    private relayProtocolAddHeader(dataView: DataView, type: number, length: number) {
-        // magic value
-        dataView.setUint32(0, 0x9E79BC40);
-        dataView.setUint32(4, type);
-        dataView.setUint32(8, length);
-    }
-
-    private relayProtocolDecodeMessage(data: Uint8Array) : RelayMessage {
-        let dataView = new DataView(data.buffer);
-
-        if (data.length < 12 || dataView.getUint32(0) !== 0x9E79BC40) {
-            console.error('PeerSocket::relayProtocolDecodeMessage too short or invalid magic value');
-            return {
-                type: 255,
-                length: 0,
-                data: new Uint8Array(),
-                message: null,
-            };
-        }
-
-        const decoded : RelayMessage = {
-            type: dataView.getUint32(4),
-            length: dataView.getUint32(8),
-            data: data.subarray(12),
-            message: null,
-        };
-
-        switch (decoded.type) {
-            case RelayMessageType.SessionInvitation: {
-                try {
-                    const fromLengthIndex = 12;
-                    const fromIndex = fromLengthIndex + 4;
-                    const fromLength = dataView.getUint32(fromLengthIndex);
-                    const keyLengthIndex = fromIndex + fromLength;
-                    const keyIndex = keyLengthIndex + 4;
-                    const keyLength = dataView.getUint32(keyLengthIndex);
-                    const addressLengthIndex = keyIndex + keyLength;
-                    const addressIndex = addressLengthIndex + 4;
-                    const addressLength = dataView.getUint32(addressLengthIndex);
-                    const portIndex = 2 + addressIndex + addressLength;
-
-                    decoded.message = {
-                        fromLength: fromLength,
-                        from: data.subarray(fromIndex, fromIndex + fromLength),
-                        keyLength: keyLength,
-                        key: data.subarray(keyIndex, keyIndex + keyLength),
-                        addressLength: addressLength,
-                        address: data.subarray(addressIndex, addressIndex + addressLength),
-                        port: dataView.getUint16(portIndex),
-                    }
-                }
-                catch (e) {
-                    if(e instanceof RangeError) {
-                        console.error('PeerSocket::relayProtocolDecodeMessage: invalid session invitation length');
-                    }
-                    else {
-                        console.error('PeerSocket::relayProtocolDecodeMessage: session invitation error', e);
-                    }
-                }
-                break;
-            }
-
-            case RelayMessageType.Response: {
-                try {
-                    const codeIndex = 12;
-                    const messageLengthIndex = codeIndex + 4;
-                    const messageIndex = messageLengthIndex + 4;
-                    const messageLength = dataView.getUint32(messageLengthIndex);
-
-                    decoded.message = {
-                        code: dataView.getUint32(codeIndex),
-                        messageLength: messageLength,
-                        message: data.subarray(messageIndex, messageIndex + messageLength),
-                    };
-                }
-                catch (e) {
-                    if(e instanceof RangeError) {
-                        console.error('PeerSocket::relayProtocolDecodeMessage: invalid response length');
-                    }
-                    else {
-                        console.error('PeerSocket::relayProtocolDecodeMessage: response error', e);
-                    }
-                }
-                break;
-            }
-        }
-
-        return decoded
-    }
-
-    private relayProtocolConnectRequest(peerDeviceId: DeviceId) : Uint8Array {
-        const connectRequest = new Uint8Array(48);
-        const connectRequestView = new DataView(connectRequest.buffer);
-        // message length is length of message only, not including header
-        this.relayProtocolAddHeader(connectRequestView, RelayMessageType.ConnectRequest, 36);
-        // length of ID is fixed for this connection request type
-        connectRequestView.setUint32(12, 32);
-        // add peer ID
-        for (let i=0; i<32; i++) {
-            connectRequest[i+16] = peerDeviceId.asBytes[i];
-        }
-
-        return connectRequest;
-    }
-
-    private relayProtocolJoinSessionRequest(key: Uint8Array) : Uint8Array {
-        const message = new Uint8Array(key.length + 16);
-        const messageView = new DataView(message.buffer);
-        this.relayProtocolAddHeader(messageView, RelayMessageType.JoinSessionRequest, key.length + 4);
-        messageView.setUint32(12, key.length);
-        // add key
-        for (let i=0; i<key.length; i++) {
-            message[i+16] = key[i];
-        }
-
-        return message;
-    }
-
-    private relayRequest(message: Uint8Array, socket: Socket | TLSSocket, authId?: DeviceId) : Promise<RelayMessage> {
+    private relayRequest(message: Uint8Array, socket: Socket | TLSSocket, address: string, authId?: DeviceId) : Promise<RelayMessage> {
     	let connectEvent = 'connect';
     	if (socket instanceof TLSSocket) {
     	    connectEvent = 'secureConnect';
@@ -198,26 +52,27 @@ export default class PeerSocket {
             socket.on('timeout', () => {
                 console.error( 'PeerSocket::relayRequest: timeout when negotiating with relay server');
                 socket.destroy();
-                reject();
+                reject(new ConnectionError('timeout when negotiating with relay server', address));
             });
             socket.on('error', (error) => {
                 console.error( 'PeerSocket::relayRequest: error when negotiating with relay server', error);
                 socket.destroy();
-                reject();
+                reject(new ConnectionError('error when negotiating with relay server: ' + error.message, address));
             });
             socket.on('close', () => {
                 console.debug('PeerSocket::relayRequest: closed');
                 // if we have data resolve otherwise reject
                 socket.destroy();
-                reject();
+                reject(new ConnectionError('relay server closed the connection', address));
             });
             socket.on(connectEvent, () => {
             	if (socket instanceof TLSSocket) {
             	    const connectedRelayId = Authentication.fromSocket(socket);
-                    if (connectedRelayId.asString !== authId.asString) {
+                    if (connectedRelayId.valid === false || connectedRelayId.asString !== authId.asString) {
                     	console.error('PeerSocket::relayRequest: relay authentication failed', connectedRelayId.asString);
+                        socket.removeAllListeners();
                         socket.destroy();
-                        reject();
+                        reject(new RelayIdentityError('relay device ID failed authentication', authId.asString, connectedRelayId.asString));
                         return;
                     }
 
@@ -233,7 +88,7 @@ export default class PeerSocket {
                 }
                 socket.setTimeout(0);
                 socket.removeAllListeners();
-                resolve(this.relayProtocolDecodeMessage(data));
+                resolve(relayDecodeMessage(data));
             });
         });
     }
@@ -243,6 +98,20 @@ export default class PeerSocket {
         this.socketOptions = socketOptions;
     }
 
+    // drop any previous connection, so its events can't be mistaken for the new one
+    private closeSockets() {
+        if (this.socket) {
+            this.socket.removeAllListeners();
+            this.socket.destroy();
+            this.socket = undefined;
+        }
+        if (this.insecureSocket) {
+            this.insecureSocket.removeAllListeners();
+            this.insecureSocket.destroy();
+            this.insecureSocket = undefined;
+        }
+    }
+
     destructor() {
         if (this.socket) {
             this.socket.end();
@@ -252,130 +121,236 @@ export default class PeerSocket {
         }
     }
 
-    async connect(url: string, peerId: DeviceId) {
+    // resolves once TLS is established and the peer has the expected device ID
+    private verify(socket: TLSSocket | QuicSocket, address: string) : Promise<void> {
+        return new Promise((resolve, reject) => {
+            const onSecureConnect = () => {
+                // NOTE: we do NOT need to check client.authorised as default
+                // Syncthing server setup does not use signed certificates
+                const connectedPeerId = Authentication.fromSocket(socket);
+                if (connectedPeerId.valid === false ||
+                connectedPeerId.asString !== this.peerId.asString) {
+                    fail(new PeerIdentityError('remote device ID failed authentication', this.peerId.asString, connectedPeerId.asString));
+                    return;
+                }
+
+                console.info('PeerSocket::verify: remote device ID is: ', connectedPeerId.asString);
+                removeListeners();
+                resolve();
+            };
+            const onTimeout = () => fail(new ConnectionError('timeout', address));
+            const onError = (error) => fail(new ConnectionError(error.message, address));
+            const onClose = () => fail(new ConnectionError('closed', address));
+
+            const removeListeners = () => {
+                socket.setTimeout(0);
+                socket.removeListener('secureConnect', onSecureConnect);
+                socket.removeListener('timeout', onTimeout);
+                socket.removeListener('error', onError);
+                socket.removeListener('close', onClose);
+            };
+            const fail = (error: SyncthingError) => {
+                console.error('PeerSocket::verify: failed to connect', error.message);
+                removeListeners();
+                socket.destroy();
+                reject(error);
+            };
+
+            socket.setTimeout(CONNECT_TIMEOUT);
+            socket.on('secureConnect', onSecureConnect);
+            socket.on('timeout', onTimeout);
+            socket.on('error', onError);
+            socket.on('close', onClose);
+        });
+    }
+
+    private attach(socket: TLSSocket | QuicSocket, insecureSocket?: Socket) {
+        this.socket = socket;
+        this.insecureSocket = insecureSocket;
+
+        // start inactivity time
+        this.socket.setTimeout(90000 * 3);
+
+        this.socket.on('timeout', () => {
+            this.socket.end();
+            if (this.insecureSocket) {
+                this.insecureSocket.end();
+            }
+        });
+
+        this.socket.on("data", (data) => {
+            if (this.extraDebugging) {
+                console.debug('PeerSocket::onData: received ' + data.length);
+            }
+
+            this.event.emit('data', data);
+        });
+
+        this.socket.on('close', () => {
+            this.event.emit('close', new ConnectionError('connection closed', this.address));
+            if (this.insecureSocket) {
+                this.insecureSocket.end();
+            }
+        });
+
+        this.socket.on('error', (error) => {
+            this.event.emit('error', new ConnectionError(error.message, this.address));
+            this.socket.destroy();
+            if (this.insecureSocket) {
+                this.insecureSocket.destroy();
+            }
+        });
+
+        this.event.emit('secureConnect');
+    }
+
+    // resolves with the address in use once connected and the peer is authenticated, which is a
+    // connection accepted from the peer meanwhile rather than url, rejects with a ConnectionError if
+    // this address failed, or an IdentityError if the peer or relay can't be authenticated,
+    // after connecting a lost connection is signalled by the error and close events
+    async connect(url: string, peerId: DeviceId) : Promise<string> {
+        this.closeSockets();
+
         this.peerId = peerId;
         const parsedURL = new URL(url);
         const port = parseInt(parsedURL.port);
 
-        if (port === NaN) {
-            console.error('PeerSocket::connect: invalid port', parsedURL.port);
-            return;
+        if (Number.isNaN(port)) {
+            throw new ConnectionError('invalid port ' + parsedURL.port, url);
         }
 
+        let socket: TLSSocket | QuicSocket;
+        let insecureSocket: Socket;
+
         console.debug('PeerSocket::connect: connecting to Syncthing remote');
 
         // do we need to access this device via relay
         if (parsedURL.protocol === 'relay:') {
-            try {
-            	// get relay device id to authenticate relay
-                const relayId = parsedURL.searchParams.get('id');
-                if (relayId === null) {
-                	console.error('PeerSocket::connect: no relay device id');
-                }
+            // get relay device id to authenticate relay
+            const relayIdString = parsedURL.searchParams.get('id');
+            if (relayIdString === null) {
+                throw new RelayIdentityError('relay address has no device ID', '', '');
+            }
+
+            const relayId = Authentication.fromString(relayIdString);
+            if (relayId.valid === false) {
+                throw new RelayIdentityError('relay address has an invalid device ID', relayIdString, '');
+            }
 
+            try {
             	// start by contacting relay to request connection
                 const relayProtocolSocket = connect(port, parsedURL.hostname, this.socketOptions);
                 const connectRequestReply = await this.relayRequest(
-                    this.relayProtocolConnectRequest(peerId),
+                    relayConnectRequest(peerId),
                     relayProtocolSocket,
-                    Authentication.fromString(relayId)
+                    url,
+                    relayId
                  );
 
                 // socket is closed at server end after reply anyway
                 relayProtocolSocket.destroy();
 
-                if (connectRequestReply.type !== RelayMessageType.SessionInvitation) {
-                    console.error('PeerSocket::connect: reply to connect request is not session invitation', connectRequestReply);
-                    return;
+                // the relay responds instead if the peer isn't connected to it
+                if (connectRequestReply.type === RelayMessageType.Response && connectRequestReply.message) {
+                    throw new ConnectionError('relay refused connect request, ' + relayResponseError(<ResponseMessage>connectRequestReply.message), url);
+                }
+
+                if (connectRequestReply.type !== RelayMessageType.SessionInvitation || !connectRequestReply.message) {
+                    throw new ConnectionError('reply to connect request is not session invitation', url);
                 }
 
                 console.debug('PeerSocket::connect: received session invitation message');
                 const sessionInvitation = <SessionInvitationMessage>connectRequestReply.message;
                 const relaySessionSocket = insecureConnect(sessionInvitation.port, parsedURL.hostname);
                 const sessionRequestReply = await this.relayRequest(
-                    this.relayProtocolJoinSessionRequest(sessionInvitation.key),
-                    relaySessionSocket
+                    relayJoinSessionRequest(sessionInvitation.key),
+                    relaySessionSocket,
+                    url
                 );
 
-                if (sessionRequestReply.type !== RelayMessageType.Response) {
-                    console.error('PeerSocket::connect: reply to join session request is not response', sessionRequestReply);
+                if (sessionRequestReply.type !== RelayMessageType.Response || !sessionRequestReply.message) {
                     relaySessionSocket.destroy();
-                    return;
+                    throw new ConnectionError('reply to join session request is not response', url);
                 }
 
+                // already connected means the session was joined by someone else, so it can't be ours
                 const response = <ResponseMessage>sessionRequestReply.message;
-                if (response.code === SessionJoinResponse.ResponseNotFound) {
-                    console.error('PeerSocket::connect: session key not found', sessionInvitation.key);
+                if (response.code !== RelayResponseCode.ResponseSuccess) {
                     relaySessionSocket.destroy();
-                    return;
+                    throw new ConnectionError('failed to join session, ' + relayResponseError(response), url);
                 }
 
                 console.debug('PeerSocket::connect: successfully negotiated relay');
                 // wrap insecure socket in TLS
-                this.insecureSocket = relaySessionSocket;
-                this.socket = connect({
-                    socket: this.insecureSocket,
+                insecureSocket = relaySessionSocket;
+                socket = connect({
+                    socket: insecureSocket,
                     ...this.socketOptions
                 });
             }
-            catch {
-            	return;
+            catch (e) {
+                if (e instanceof SyncthingError) {
+                    throw e;
+                }
+                throw new ConnectionError(e.message, url);
             }
         }
-        else if (parsedURL.protocol === 'tcp:') {
-            this.socket = connect(port, parsedURL.hostname, this.socketOptions);
+        else if (parsedURL.protocol === 'tcp:' || parsedURL.protocol === 'tcp4:' || parsedURL.protocol === 'tcp6:') {
+            socket = connect(port, parsedURL.hostname, this.socketOptions);
+        }
+        else if (parsedURL.protocol === 'quic:' || parsedURL.protocol === 'quic4:' || parsedURL.protocol === 'quic6:') {
+            if (!QuicSocket.available) {
+                throw new ConnectionError('QUIC needs the optional dependency @matrixai/quic', url);
+            }
+            const family = parsedURL.protocol === 'quic4:' ? 4 : parsedURL.protocol === 'quic6:' ? 6 : 0;
+            socket = new QuicSocket(this.socketOptions).connect(port, parsedURL.hostname, family);
         }
         else {
-            console.error('PeerSocket::connect: invalid protocol', parsedURL.protocol);
-            return;
+            throw new ConnectionError('invalid protocol ' + parsedURL.protocol, url);
         }
 
-        this.socket.on('secureConnect', () => {
-        	// NOTE: we do NOT need to check client.authorised as default
-            // Syncthing server setup does not use signed certificates
-        	const connectedPeerId = Authentication.fromSocket(this.socket);
-            if (connectedPeerId.valid === false ||
-            connectedPeerId.asString !== this.peerId.asString) {
-                this.event.emit('error', 'remote device ID failed authentication');
-                return;
+        try {
+            await this.verify(socket, url);
+        }
+        catch (e) {
+            if (insecureSocket) {
+                insecureSocket.destroy();
             }
+            throw e;
+        }
 
-            console.info('PeerSocket::connect: remote device ID is: ', connectedPeerId.asString);
-
-            // start inactivity time
-            this.socket.setTimeout(90000 * 3);
-            this.event.emit('secureConnect');
-        });
-
-        this.socket.on('timeout', () => {
-            this.socket.end();
-            if (this.insecureSocket) {
-                this.insecureSocket.end();
+        // a connection from the peer may have been accepted while this one was being made
+        if (this.socket) {
+            socket.destroy();
+            if (insecureSocket) {
+                insecureSocket.destroy();
             }
-        });
+            return this.address;
+        }
 
-        this.socket.on("data", (data) => {
-            if (this.extraDebugging) {
-                console.debug('PeerSocket::onData: received ' + data.length);
-            }
+        this.address = url;
+        this.attach(socket, insecureSocket);
+        return url;
+    }
 
-            this.event.emit('data', data);
-        });
+    // drop the connection straight away, the close event is still emitted
+    close() {
+        if (this.socket) {
+            this.socket.destroy();
+        }
+        if (this.insecureSocket) {
+            this.insecureSocket.destroy();
+        }
+    }
 
-        this.socket.on('close', () => {
-            this.event.emit('close');
-            if (this.insecureSocket) {
-                this.insecureSocket.end();
-            }
-        });
+    // use a connection accepted by a listener, the peer has already been authenticated
+    accept(socket: TLSSocket, peerId: DeviceId) {
+        this.closeSockets();
 
-        this.socket.on('error', (error) => {
-            this.event.emit('error');
-            this.socket.destroy();
-            if (this.insecureSocket) {
-                this.insecureSocket.destroy();
-            }
-        });
+        this.peerId = peerId;
+        const host = socket.remoteFamily === 'IPv6' ? '[' + socket.remoteAddress + ']' : socket.remoteAddress;
+        this.address = 'tcp://' + host + ':' + socket.remotePort;
+        this.attach(socket);
     }
 
     write(data: Uint8Array) {
@@ -0,0 +1,250 @@
+/*
+This file is part of Syncthing TS.
+
+Syncthing TS is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+Syncthing TS is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Syncthing TS.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { EventEmitter } from 'events';
+import { TLSSocketOptions } from 'tls';
+import { createHash, randomFillSync } from 'crypto';
+import { promises as dns } from 'dns';
+
+// QUIC comes from optional dependencies, without them quic: addresses can't be used
+let quic: any = null;
+let logger: any = null;
+try {
+    quic = require('@matrixai/quic');
+    logger = require('@matrixai/logger');
+}
+catch (e) {
+    quic = null;
+}
+
+// Syncthing uses the same application protocol as over TCP
+const ALPN_PROTOCOLS = ['bep/1.0'];
+// time allowed for our side of the stream to be sent before the connection is dropped
+const END_TIMEOUT = 5000;
+
+/*
+ * A QUIC connection to a peer carrying a single stream, Syncthing sends everything on the
+ * first stream the dialer opens. It has the parts of a TLSSocket that PeerSocket uses,
+ * emitting secureConnect, data, timeout, error and close in the same way.
+ */
+
+export default class QuicSocket extends EventEmitter {
+    static readonly available = quic !== null;
+
+    private options: TLSSocketOptions;
+    // resolves with the client once connected, cancelled if destroyed before then
+    private connecting: any = null;
+    private client: any = null;
+    private reader: any = null;
+    private writer: any = null;
+    private peerCertificate: Buffer | null = null;
+    private timeout = 0;
+    private timeoutTimer: any;
+    private closed = false;
+
+    // any time spent without reading or writing is inactivity, as it is for a net.Socket
+    private active() {
+        clearTimeout(this.timeoutTimer);
+        if (this.timeout > 0 && !this.closed) {
+            this.timeoutTimer = setTimeout(() => {
+                this.emit('timeout');
+            }, this.timeout);
+        }
+    }
+
+    private fail(error: Error) {
+        if (this.closed) {
+            return;
+        }
+        console.error('QuicSocket::fail:', error.message);
+        this.emit('error', error);
+        this.destroy();
+    }
+
+    private async open(port: number, host: string, family: number) {
+        // IPv6 hosts are wrapped in brackets in URLs
+        const resolved = await dns.lookup(host.replace(/^\[|\]$/g, ''), { family: family });
+        if (this.closed) {
+            return;
+        }
+
+        this.connecting = quic.QUICClient.createQUICClient({
+            host: resolved.address,
+            port: port,
+            // the local socket must be the same family as the peer's address
+            localHost: resolved.family === 6 ? '::' : '0.0.0.0',
+            crypto: {
+                ops: {
+                    randomBytes: async (data: ArrayBuffer) => {
+                        randomFillSync(new Uint8Array(data));
+                    },
+                },
+            },
+            config: {
+                key: this.options.key,
+                cert: this.options.cert,
+                // certificates are self signed, the peer is authenticated by its device ID instead
+                verifyPeer: true,
+                verifyCallback: async () => undefined,
+                applicationProtos: ALPN_PROTOCOLS,
+            },
+            logger: new logger.default('QuicSocket', logger.LogLevel.WARN),
+        });
+
+        const client = await this.connecting;
+        this.connecting = null;
+        if (this.closed) {
+            await client.destroy({ force: true });
+            return;
+        }
+
+        this.client = client;
+        client.addEventListener(quic.events.EventQUICClientClose.name, () => {
+            this.destroy();
+        }, { once: true });
+
+        const certificates = client.connection.getRemoteCertsChain();
+        this.peerCertificate = certificates.length ? Buffer.from(certificates[0]) : null;
+
+        const stream = client.connection.newStream();
+        this.writer = stream.writable.getWriter();
+        this.reader = stream.readable.getReader();
+        this.read();
+
+        this.active();
+        this.emit('secureConnect');
+    }
+
+    private async read() {
+        try {
+            while (true) {
+                const { value, done } = await this.reader.read();
+                if (done) {
+                    break;
+                }
+
+                this.active();
+                this.emit('data', Buffer.from(value));
+            }
+        }
+        catch (e) {
+            // the peer closing the connection ends the stream with an error, so this is the same as done
+            console.debug('QuicSocket::read: stream ended', e);
+        }
+        this.destroy();
+    }
+
+    constructor(options: TLSSocketOptions) {
+        super();
+        this.options = options;
+    }
+
+    // connect to the peer, emits secureConnect once the stream is open, family 4 or 6 limits
+    // the addresses host resolves to, the peer's certificate isn't checked, so it must be authenticated by the caller
+    connect(port: number, host: string, family = 0) : QuicSocket {
+        if (!QuicSocket.available) {
+            process.nextTick(() => {
+                this.fail(new Error('QUIC needs the optional dependency @matrixai/quic'));
+            });
+            return this;
+        }
+
+        this.open(port, host, family).catch((error) => {
+            this.fail(error);
+        });
+        return this;
+    }
+
+    // the same fields as a TLSSocket's peer certificate that are used for authentication
+    getPeerCertificate() : { raw: Buffer, fingerprint256: string } {
+        if (this.peerCertificate === null) {
+            throw new Error('no peer certificate');
+        }
+
+        const hash = createHash('sha256').update(this.peerCertificate).digest('hex').toUpperCase();
+        return {
+            raw: this.peerCertificate,
+            fingerprint256: hash.match(/../g).join(':'),
+        };
+    }
+
+    // emit timeout after this long without reading or writing, 0 turns it off
+    setTimeout(timeout: number) : QuicSocket {
+        this.timeout = timeout;
+        this.active();
+        return this;
+    }
+
+    write(data: Uint8Array) : boolean {
+        if (this.writer === null || this.closed) {
+            return false;
+        }
+
+        this.active();
+        this.writer.write(data).catch((error: Error) => {
+            this.fail(error);
+        });
+        return true;
+    }
+
+    // close once everything written has been sent, anything the peer sends meanwhile is dropped
+    end() {
+        if (this.writer === null || this.closed) {
+            this.destroy();
+            return;
+        }
+
+        const timer = setTimeout(() => {
+            this.destroy();
+        }, END_TIMEOUT);
+
+        // the connection only closes gracefully once both directions of the stream have finished
+        this.writer.close()
+            .then(() => this.reader.cancel())
+            .then(() => this.client.destroy({ force: false }))
+            .catch((error: Error) => {
+                console.debug('QuicSocket::end: failed to close stream', error.message);
+            })
+            .then(() => {
+                clearTimeout(timer);
+                this.destroy();
+            });
+    }
+
+    // close straight away, close is still emitted
+    destroy() {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        clearTimeout(this.timeoutTimer);
+
+        if (this.connecting) {
+            this.connecting.cancel();
+        }
+        if (this.client) {
+            this.client.destroy({ force: true }).catch((error: Error) => {
+                console.debug('QuicSocket::destroy: failed to close connection', error.message);
+            });
+        }
+
+        // like a socket, close is emitted after destroy returns
+        process.nextTick(() => {
+            this.emit('close');
+        });
+    }
+}
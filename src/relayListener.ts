@@ -0,0 +1,450 @@
+/*
+This file is part of Syncthing TS.
+
+Syncthing TS is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+Syncthing TS is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Syncthing TS.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { readFileSync } from 'fs';
+import { connect as insecureConnect } from 'net';
+import { TLSSocket, connect, createSecureContext } from 'tls';
+import { EventEmitter } from 'events';
+import { URL } from 'url';
+
+import Authentication, { DeviceId } from './authentication';
+import { ConnectionError, RelayIdentityError } from './errors';
+import { RelayMessageType, RelayResponseCode, RelayMessage, ResponseMessage, SessionInvitationMessage,
+    relayDecodeMessage, relayMessageLength, relayResponseError, relayJoinRelayRequest, relayJoinSessionRequest, relayPong } from './relayProtocol';
+
+// relays ping every minute, so the connection is lost if nothing arrives for longer
+const RELAY_TIMEOUT = 150000;
+// time allowed to join a relay or a session and complete TLS
+const JOIN_TIMEOUT = 10000;
+// delay before joining again after losing the relay
+const REJOIN_DELAY = 30000;
+
+// reads whole relay messages from a socket, as they may arrive split or combined
+class RelayReader {
+    private buffer = Buffer.alloc(0);
+
+    // remaining data once messages are no longer read, e.g. the start of TLS
+    get rest() : Buffer {
+        return this.buffer;
+    }
+
+    // returns messages that are complete, throws if the stream isn't relay messages
+    read(data: Buffer, limit = Infinity) : RelayMessage[] {
+        this.buffer = Buffer.concat([this.buffer, data]);
+
+        const messages = [];
+        while (messages.length < limit) {
+            const length = relayMessageLength(this.buffer);
+            if (length === -1) {
+                throw('RelayReader::read: invalid relay message');
+            }
+            if (length === null || this.buffer.length < length) {
+                break;
+            }
+
+            messages.push(relayDecodeMessage(this.buffer.subarray(0, length)));
+            this.buffer = this.buffer.subarray(length);
+        }
+        return messages;
+    }
+}
+
+/*
+ * Stays joined to a relay, so devices that can't reach us directly can connect
+ * through it. Allowed devices invited to a session are passed on, as a connection
+ * event with the socket and their device ID.
+ */
+
+export default class RelayListener {
+    private cert: Buffer;
+    private key: Buffer;
+    private allowed: Set<string>;
+    // relays to join, the first that accepts us is used
+    private relays: string[] = [];
+    private socket: TLSSocket;
+    private rejoinTimer: any;
+    private stopped = false;
+    private event = new EventEmitter();
+
+    // address of the relay we have joined, for announcing
+    relay: string | null = null;
+
+    private invitationHost(invitation: SessionInvitationMessage, relayHost: string) : string {
+        const address = invitation.address;
+
+        // no address means the session is on the relay itself
+        if (address.length === 0 || address.every((byte) => byte === 0)) {
+            return relayHost;
+        }
+        if (address.length === 4) {
+            return Array.from(address).join('.');
+        }
+
+        const groups = [];
+        for (let i = 0; i < address.length; i += 2) {
+            groups.push(((address[i] << 8) | address[i + 1]).toString(16));
+        }
+        return groups.join(':');
+    }
+
+    // join the session the relay invited us to, and authenticate the device inviting us
+    private acceptSession(invitation: SessionInvitationMessage, relayHost: string) {
+        const peerId = Authentication.fromBytes(invitation.from);
+        if (peerId.valid === false || !this.allowed.has(peerId.asString)) {
+            console.error('RelayListener::acceptSession: device not allowed', peerId.asString);
+            return;
+        }
+
+        const host = this.invitationHost(invitation, relayHost);
+        const sessionSocket = insecureConnect(invitation.port, host);
+        const reader = new RelayReader();
+        let tlsSocket: TLSSocket;
+
+        const removeListeners = () => {
+            sessionSocket.setTimeout(0);
+            sessionSocket.removeListener('timeout', onTimeout);
+            sessionSocket.removeListener('error', fail);
+            sessionSocket.removeListener('connect', onConnect);
+            sessionSocket.removeListener('data', onData);
+            if (tlsSocket) {
+                tlsSocket.removeListener('error', fail);
+            }
+        };
+        const fail = (reason: any) => {
+            console.error('RelayListener::acceptSession: failed to join session', peerId.asString, reason);
+            removeListeners();
+            sessionSocket.destroy();
+            if (tlsSocket) {
+                tlsSocket.destroy();
+            }
+        };
+        const onTimeout = () => fail('timeout');
+        const onConnect = () => {
+            sessionSocket.write(relayJoinSessionRequest(invitation.key));
+        };
+
+        const onSecure = () => {
+            const connectedPeerId = Authentication.fromSocket(tlsSocket);
+            if (connectedPeerId.valid === false || connectedPeerId.asString !== peerId.asString) {
+                fail('remote device ID failed authentication');
+                return;
+            }
+
+            removeListeners();
+            // the session ends with the TLS connection
+            tlsSocket.on('close', () => {
+                sessionSocket.destroy();
+            });
+
+            console.info('RelayListener::acceptSession: accepted device', peerId.asString);
+            this.event.emit('connection', tlsSocket, peerId);
+        };
+
+        // the relay joins the two sessions after responding, TLS data may follow straight away
+        const startTLS = () => {
+            // stop reading until TLS takes over the socket, so nothing is lost
+            sessionSocket.pause();
+            sessionSocket.removeListener('data', onData);
+            if (reader.rest.length > 0) {
+                sessionSocket.unshift(reader.rest);
+            }
+
+            if (invitation.serverSocket) {
+                tlsSocket = new TLSSocket(sessionSocket, {
+                    isServer: true,
+                    secureContext: createSecureContext({ cert: this.cert, key: this.key }),
+                    requestCert: true,
+                    rejectUnauthorized: false,
+                });
+                tlsSocket.once('secure', onSecure);
+            }
+            else {
+                tlsSocket = connect({
+                    socket: sessionSocket,
+                    cert: this.cert,
+                    key: this.key,
+                    rejectUnauthorized: false,
+                });
+                tlsSocket.once('secureConnect', onSecure);
+            }
+            tlsSocket.on('error', fail);
+        };
+
+        const onData = (data: Buffer) => {
+            try {
+                const [reply] = reader.read(data, 1);
+                if (!reply) {
+                    return;
+                }
+
+                const response = <ResponseMessage>reply.message;
+                if (reply.type !== RelayMessageType.Response || !response) {
+                    fail('reply to join session request is not response');
+                    return;
+                }
+                if (response.code !== RelayResponseCode.ResponseSuccess) {
+                    fail(relayResponseError(response));
+                    return;
+                }
+
+                startTLS();
+            }
+            catch (e) {
+                fail(e);
+            }
+        };
+
+        sessionSocket.setTimeout(JOIN_TIMEOUT);
+        sessionSocket.on('timeout', onTimeout);
+        sessionSocket.on('error', fail);
+        sessionSocket.on('connect', onConnect);
+        sessionSocket.on('data', onData);
+    }
+
+    // onJoined is called with null once the relay accepts us, or why it refused
+    private onMessage(message: RelayMessage, relayHost: string, onJoined: (refused: string | null) => void) {
+        switch (message.type) {
+            case RelayMessageType.Ping:
+                this.socket.write(relayPong());
+                break;
+
+            case RelayMessageType.Response: {
+                const response = <ResponseMessage>message.message;
+                if (response && response.code === RelayResponseCode.ResponseSuccess) {
+                    onJoined(null);
+                }
+                else {
+                    onJoined('relay refused join' + (response ? ', ' + relayResponseError(response) : ''));
+                }
+                break;
+            }
+
+            case RelayMessageType.SessionInvitation:
+                if (message.message) {
+                    this.acceptSession(<SessionInvitationMessage>message.message, relayHost);
+                }
+                break;
+
+            case RelayMessageType.RelayFull:
+                onJoined('relay is full');
+                break;
+
+            default:
+                console.error('RelayListener::onMessage: unexpected message', message.type);
+        }
+    }
+
+    // resolves once the relay accepts us, after which the relay is used until the connection is lost,
+    // rejects with a ConnectionError, or a RelayIdentityError if the relay can't be authenticated
+    private join(address: string) : Promise<void> {
+        return new Promise((resolve, reject) => {
+            let url: URL;
+            try {
+                url = new URL(address);
+            }
+            catch {
+                reject(new ConnectionError('invalid relay address', address));
+                return;
+            }
+
+            if (url.protocol !== 'relay:') {
+                reject(new ConnectionError('invalid protocol ' + url.protocol, address));
+                return;
+            }
+
+            const relayIdString = url.searchParams.get('id') || '';
+            const relayId = Authentication.fromString(relayIdString);
+            if (relayId.valid === false) {
+                reject(new RelayIdentityError('relay address has an invalid device ID', relayIdString, ''));
+                return;
+            }
+
+            // connect throws on an invalid port, which would escape the promise
+            const port = parseInt(url.port);
+            if (Number.isNaN(port)) {
+                reject(new ConnectionError('invalid port ' + url.port, address));
+                return;
+            }
+
+            const relayHost = url.hostname.replace(/^\[|\]$/g, '');
+            const socket = connect(port, relayHost, {
+                cert: this.cert,
+                key: this.key,
+                // relays have self signed certificates, they are authenticated by their device ID instead
+                rejectUnauthorized: false,
+                ALPNProtocols: ['bep-relay'],
+            });
+            const reader = new RelayReader();
+            let joined = false;
+            let settled = false;
+            // why the connection failed, if the socket says
+            let failure: ConnectionError | null = null;
+
+            const onJoined = (error: Error | null) => {
+                if (!settled) {
+                    settled = true;
+                    joined = error === null;
+                    if (joined) {
+                        resolve();
+                    }
+                    else {
+                        reject(error);
+                    }
+                }
+
+                if (error === null) {
+                    console.info('RelayListener::join: joined relay', address);
+                    socket.setTimeout(RELAY_TIMEOUT);
+                    this.socket = socket;
+                    this.relay = address;
+                    this.event.emit('joined', address);
+                }
+                else {
+                    socket.destroy();
+                }
+            };
+
+            socket.setTimeout(JOIN_TIMEOUT);
+            socket.on('secureConnect', () => {
+                const connectedRelayId = Authentication.fromSocket(socket);
+                if (connectedRelayId.valid === false || connectedRelayId.asString !== relayId.asString) {
+                    console.error('RelayListener::join: relay authentication failed', connectedRelayId.asString);
+                    onJoined(new RelayIdentityError('relay device ID failed authentication', relayId.asString, connectedRelayId.asString));
+                    return;
+                }
+                socket.write(relayJoinRelayRequest());
+            });
+            socket.on('data', (data: Buffer) => {
+                try {
+                    for (const message of reader.read(data)) {
+                        this.onMessage(message, relayHost, (refused: string | null) => {
+                            onJoined(refused === null ? null : new ConnectionError(refused, address));
+                        });
+                    }
+                }
+                catch (e) {
+                    console.error('RelayListener::join: invalid data from relay', e);
+                    failure = new ConnectionError('invalid data from relay', address);
+                    socket.destroy();
+                }
+            });
+            socket.on('timeout', () => {
+                console.error('RelayListener::join: relay timed out', address);
+                failure = new ConnectionError('relay timed out', address);
+                socket.destroy();
+            });
+            socket.on('error', (error) => {
+                console.error('RelayListener::join: relay error', address, error.message);
+                failure = new ConnectionError(error.message, address, error);
+            });
+            socket.on('close', () => {
+                onJoined(failure || new ConnectionError('relay closed the connection', address));
+                if (joined) {
+                    this.left();
+                }
+            });
+        });
+    }
+
+    private left() {
+        console.info('RelayListener::left: lost relay', this.relay);
+        this.socket = undefined;
+        this.relay = null;
+        this.event.emit('left');
+        this.scheduleRejoin();
+    }
+
+    private scheduleRejoin() {
+        if (this.stopped || this.rejoinTimer) {
+            return;
+        }
+
+        this.rejoinTimer = setTimeout(async () => {
+            this.rejoinTimer = undefined;
+            try {
+                await this.joinAny();
+            }
+            catch (e) {
+                console.error('RelayListener::scheduleRejoin: failed to rejoin', e.message);
+                this.scheduleRejoin();
+            }
+        }, REJOIN_DELAY);
+    }
+
+    // joins the first relay that accepts us, rejects with why the last relay failed
+    private async joinAny() {
+        let error: Error = new ConnectionError('no relays to join');
+
+        for (const relay of this.relays) {
+            if (this.stopped) {
+                throw new ConnectionError('stopped', relay);
+            }
+
+            try {
+                await this.join(relay);
+                return;
+            }
+            catch (e) {
+                console.error('RelayListener::joinAny: failed to join relay', relay, e.message);
+                error = e;
+            }
+        }
+        throw error;
+    }
+
+    constructor(certPath: string, keyPath: string, allowedDeviceIds: string[]) {
+        this.cert = readFileSync(certPath);
+        this.key = readFileSync(keyPath);
+
+        this.allowed = new Set();
+        for (const deviceId of allowedDeviceIds) {
+            const id = Authentication.fromString(deviceId);
+            if (id.valid) {
+                this.allowed.add(id.asString);
+            }
+            else {
+                console.error('RelayListener:: invalid allowed device ID', deviceId);
+            }
+        }
+    }
+
+    destructor() {
+        this.stopped = true;
+        clearTimeout(this.rejoinTimer);
+
+        if (this.socket) {
+            this.socket.destroy();
+        }
+    }
+
+    // join the first relay that accepts us, rejoining if the relay is lost, rejects with
+    // why the last relay failed if none accepted us now, although joining is still retried
+    async start(relays: string[]) {
+        this.relays = relays;
+        try {
+            await this.joinAny();
+        }
+        catch (e) {
+            this.scheduleRejoin();
+            throw e;
+        }
+    }
+
+    on(event: string, listener: any) {
+        this.event.on(event, listener);
+    }
+}
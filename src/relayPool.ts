@@ -0,0 +1,195 @@
+/*
+This file is part of Syncthing TS.
+
+Syncthing TS is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+Syncthing TS is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Syncthing TS.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import * as https from 'https';
+import * as http from 'http';
+import { connect } from 'net';
+import { URL } from 'url';
+
+import { sortAddresses } from './discover';
+
+// same as Syncthing's default relay pool
+export const DEFAULT_RELAY_POOL = 'https://relays.syncthing.net/endpoint';
+
+// relays that take longer than this to accept a connection aren't used
+const LATENCY_TIMEOUT = 2000;
+// measured latencies are reused for this long
+const LATENCY_LIFETIME = 600000;
+// number of relays measured at the same time
+const CONCURRENT_MEASUREMENTS = 10;
+
+interface Latency {
+    // milliseconds, null if the relay couldn't be reached
+    latency: number | null;
+    measured: number;
+};
+
+function isRelay(address: string) : boolean {
+    return address.startsWith('relay://');
+}
+
+// time taken to open a TCP connection to the relay
+function measureLatency(address: string) : Promise<number | null> {
+    return new Promise((resolve) => {
+        let url: URL;
+        try {
+            url = new URL(address);
+        }
+        catch {
+            resolve(null);
+            return;
+        }
+
+        // connect throws on an invalid port, which would escape the promise
+        const port = parseInt(url.port);
+        if (Number.isNaN(port)) {
+            resolve(null);
+            return;
+        }
+
+        const start = Date.now();
+        const socket = connect(port, url.hostname.replace(/^\[|\]$/g, ''));
+        let finished = false;
+        const done = (latency: number | null) => {
+            if (!finished) {
+                finished = true;
+                socket.destroy();
+                resolve(latency);
+            }
+        };
+
+        socket.setTimeout(LATENCY_TIMEOUT);
+        socket.on('connect', () => done(Date.now() - start));
+        socket.on('timeout', () => done(null));
+        socket.on('error', () => done(null));
+    });
+}
+
+/*
+ * Relays from Syncthing's relay pool, and the latency to each of them,
+ * so the nearest relays are used first.
+ */
+
+export default class RelayPool {
+    private poolUrl: string;
+    private relays: string[] = [];
+    private latencies = new Map<string, Latency>();
+
+    private latency(address: string) : number | null {
+        const entry = this.latencies.get(address);
+        return entry ? entry.latency : null;
+    }
+
+    // measure relays without a recent measurement, a few at a time
+    private async measure(addresses: string[]) {
+        const now = Date.now();
+        const pending = addresses.filter((address) => {
+            const entry = this.latencies.get(address);
+            return !entry || now - entry.measured > LATENCY_LIFETIME;
+        });
+
+        for (let i = 0; i < pending.length; i += CONCURRENT_MEASUREMENTS) {
+            const batch = pending.slice(i, i + CONCURRENT_MEASUREMENTS);
+            const latencies = await Promise.all(batch.map((address) => measureLatency(address)));
+            batch.forEach((address, index) => {
+                this.latencies.set(address, {
+                    latency: latencies[index],
+                    measured: Date.now(),
+                });
+            });
+        }
+    }
+
+    private fetchPool() : Promise<string[]> {
+        return new Promise((resolve, reject) => {
+            const get = this.poolUrl.startsWith('http:') ? http.get : https.get;
+            get(this.poolUrl, (res) => {
+                if (res.statusCode !== 200) {
+                    console.error('RelayPool::fetchPool: failed to get relays', this.poolUrl, res.statusCode);
+                    res.resume();
+                    reject();
+                    return;
+                }
+
+                res.setEncoding('utf8');
+                let rawData = '';
+                res.on('data', (chunk) => {
+                    rawData += chunk;
+                });
+                res.on('end', () => {
+                    try {
+                        const pool = JSON.parse(rawData);
+                        resolve(pool.relays
+                            .map((relay) => relay.url)
+                            .filter((url) => typeof url === 'string' && isRelay(url)));
+                    }
+                    catch (e) {
+                        console.error('RelayPool::fetchPool: invalid relay list', e.message);
+                        reject();
+                    }
+                });
+            }).on('error', (e) => {
+                console.error('RelayPool::fetchPool: failed to make request', e);
+                reject();
+            });
+        });
+    }
+
+    // pool URL returns JSON like Syncthing's, { relays: [{ url: 'relay://...' }] }
+    constructor(poolUrl = DEFAULT_RELAY_POOL) {
+        this.poolUrl = poolUrl;
+    }
+
+    // fetch the relay list and measure each relay,
+    // returns reachable relays nearest first, empty if the pool can't be fetched
+    async refresh() : Promise<string[]> {
+        try {
+            this.relays = await this.fetchPool();
+        }
+        catch {
+            return [];
+        }
+
+        await this.measure(this.relays);
+        return this.pool();
+    }
+
+    // relays from the last refresh, nearest first
+    pool() : string[] {
+        return this.relays
+            .filter((address) => this.latency(address) !== null)
+            .sort((a, b) => this.latency(a) - this.latency(b));
+    }
+
+    // relays nearest first, any that couldn't be reached are left until last
+    async sortRelays(addresses: string[]) : Promise<string[]> {
+        const relays = addresses.filter(isRelay);
+        await this.measure(relays);
+
+        const latency = (address: string) => {
+            const measured = this.latency(address);
+            return measured === null ? Infinity : measured;
+        };
+        return relays.sort((a, b) => latency(a) - latency(b));
+    }
+
+    // order to try a peer's addresses, direct connections and then relays nearest first
+    async sortAddresses(addresses: string[]) : Promise<string[]> {
+        const direct = sortAddresses(addresses).filter((address) => !isRelay(address));
+        return direct.concat(await this.sortRelays(addresses));
+    }
+}
@@ -0,0 +1,232 @@
+/*
+This file is part of Syncthing TS.
+
+Syncthing TS is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+Syncthing TS is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Syncthing TS.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { DeviceId } from './authentication';
+
+// Syncthing relay protocol messages, XDR encoded after a 12 byte header
+
+const RELAY_MAGIC = 0x9E79BC40;
+const RELAY_HEADER_LENGTH = 12;
+
+export enum RelayMessageType {
+    Ping = 0,
+    Pong = 1,
+    JoinRelayRequest = 2,
+    JoinSessionRequest = 3,
+    Response = 4,
+    ConnectRequest = 5,
+    SessionInvitation = 6,
+    RelayFull = 7,
+};
+
+// response codes as sent by the relay
+export enum RelayResponseCode {
+    ResponseSuccess = 0,
+    ResponseNotFound = 1,
+    ResponseAlreadyConnected = 2,
+    ResponseInternalError = 99,
+    ResponseUnexpectedMessage = 100,
+};
+
+export interface RelayMessage {
+    type: number;
+    length: number;
+    data: Uint8Array;
+    message: SessionInvitationMessage | ResponseMessage
+};
+
+export interface ResponseMessage {
+    code: number;
+    messageLength: number;
+    message: Uint8Array;
+};
+
+export interface SessionInvitationMessage {
+    fromLength: number;
+    from: Uint8Array;
+    keyLength: number;
+    key: Uint8Array;
+    addressLength: number;
+    address: Uint8Array;
+    port: number;
+    // we take the server side of TLS, as the device that was invited to connect
+    serverSocket: boolean;
+};
+
+function relayAddHeader(dataView: DataView, type: number, length: number) {
+    // magic value
+    dataView.setUint32(0, RELAY_MAGIC);
+    dataView.setUint32(4, type);
+    dataView.setUint32(8, length);
+}
+
+export function relayDecodeMessage(data: Uint8Array) : RelayMessage {
+    let dataView = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+    if (data.length < RELAY_HEADER_LENGTH || dataView.getUint32(0) !== RELAY_MAGIC) {
+        console.error('::relayDecodeMessage too short or invalid magic value');
+        return {
+            type: 255,
+            length: 0,
+            data: new Uint8Array(),
+            message: null,
+        };
+    }
+
+    const decoded : RelayMessage = {
+        type: dataView.getUint32(4),
+        length: dataView.getUint32(8),
+        data: data.subarray(RELAY_HEADER_LENGTH),
+        message: null,
+    };
+
+    switch (decoded.type) {
+        case RelayMessageType.SessionInvitation: {
+            try {
+                const fromLengthIndex = 12;
+                const fromIndex = fromLengthIndex + 4;
+                const fromLength = dataView.getUint32(fromLengthIndex);
+                const keyLengthIndex = fromIndex + fromLength;
+                const keyIndex = keyLengthIndex + 4;
+                const keyLength = dataView.getUint32(keyLengthIndex);
+                const addressLengthIndex = keyIndex + keyLength;
+                const addressIndex = addressLengthIndex + 4;
+                const addressLength = dataView.getUint32(addressLengthIndex);
+                const portIndex = 2 + addressIndex + addressLength;
+
+                decoded.message = {
+                    fromLength: fromLength,
+                    from: data.subarray(fromIndex, fromIndex + fromLength),
+                    keyLength: keyLength,
+                    key: data.subarray(keyIndex, keyIndex + keyLength),
+                    addressLength: addressLength,
+                    address: data.subarray(addressIndex, addressIndex + addressLength),
+                    port: dataView.getUint16(portIndex),
+                    serverSocket: data.length >= portIndex + 6 && dataView.getUint32(portIndex + 2) !== 0,
+                }
+            }
+            catch (e) {
+                if(e instanceof RangeError) {
+                    console.error('::relayDecodeMessage: invalid session invitation length');
+                }
+                else {
+                    console.error('::relayDecodeMessage: session invitation error', e);
+                }
+            }
+            break;
+        }
+
+        case RelayMessageType.Response: {
+            try {
+                const codeIndex = 12;
+                const messageLengthIndex = codeIndex + 4;
+                const messageIndex = messageLengthIndex + 4;
+                const messageLength = dataView.getUint32(messageLengthIndex);
+
+                decoded.message = {
+                    code: dataView.getUint32(codeIndex),
+                    messageLength: messageLength,
+                    message: data.subarray(messageIndex, messageIndex + messageLength),
+                };
+            }
+            catch (e) {
+                if(e instanceof RangeError) {
+                    console.error('::relayDecodeMessage: invalid response length');
+                }
+                else {
+                    console.error('::relayDecodeMessage: response error', e);
+                }
+            }
+            break;
+        }
+    }
+
+    return decoded
+}
+
+// length of the first message in data including its header, null if the header hasn't all arrived,
+// or -1 if it isn't a relay message
+export function relayMessageLength(data: Uint8Array) : number | null {
+    if (data.length < RELAY_HEADER_LENGTH) {
+        return null;
+    }
+
+    const dataView = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    if (dataView.getUint32(0) !== RELAY_MAGIC) {
+        return -1;
+    }
+    return RELAY_HEADER_LENGTH + dataView.getUint32(8);
+}
+
+// describes a relay response that isn't success, for logging
+export function relayResponseError(response: ResponseMessage) : string {
+    const message = Buffer.from(response.message).toString('utf8');
+    switch (response.code) {
+        case RelayResponseCode.ResponseNotFound:
+            return 'not found ' + message;
+        case RelayResponseCode.ResponseAlreadyConnected:
+            return 'already connected ' + message;
+        case RelayResponseCode.ResponseInternalError:
+            return 'relay internal error ' + message;
+        case RelayResponseCode.ResponseUnexpectedMessage:
+            return 'relay did not expect message ' + message;
+        default:
+            return 'unknown response ' + response.code + ' ' + message;
+    }
+}
+
+export function relayConnectRequest(peerDeviceId: DeviceId) : Uint8Array {
+    const connectRequest = new Uint8Array(48);
+    const connectRequestView = new DataView(connectRequest.buffer);
+    // message length is length of message only, not including header
+    relayAddHeader(connectRequestView, RelayMessageType.ConnectRequest, 36);
+    // length of ID is fixed for this connection request type
+    connectRequestView.setUint32(12, 32);
+    // add peer ID
+    for (let i=0; i<32; i++) {
+        connectRequest[i+16] = peerDeviceId.asBytes[i];
+    }
+
+    return connectRequest;
+}
+
+export function relayJoinSessionRequest(key: Uint8Array) : Uint8Array {
+    const message = new Uint8Array(key.length + 16);
+    const messageView = new DataView(message.buffer);
+    relayAddHeader(messageView, RelayMessageType.JoinSessionRequest, key.length + 4);
+    messageView.setUint32(12, key.length);
+    // add key
+    for (let i=0; i<key.length; i++) {
+        message[i+16] = key[i];
+    }
+
+    return message;
+}
+
+
+// join as a device that can be invited to sessions, with an empty token
+export function relayJoinRelayRequest() : Uint8Array {
+    const message = new Uint8Array(RELAY_HEADER_LENGTH + 4);
+    relayAddHeader(new DataView(message.buffer), RelayMessageType.JoinRelayRequest, 4);
+    return message;
+}
+
+export function relayPong() : Uint8Array {
+    const message = new Uint8Array(RELAY_HEADER_LENGTH);
+    relayAddHeader(new DataView(message.buffer), RelayMessageType.Pong, 0);
+    return message;
+}
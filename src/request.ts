@@ -17,6 +17,7 @@ along with Syncthing TS.  If not, see <https://www.gnu.org/licenses/>.
 
 import * as crypto from 'crypto';
 import { Block } from './constants';
+import { NotFoundError, TimeoutError, RequestError } from './errors';
 
 /* Because of the single threaded nature of node
  * I believe I am correct in thinking the functions
@@ -40,11 +41,15 @@ export interface BlockRequest {
 
 interface QueuedBlock {
     active: boolean;
+    // returned by send, where the request went
+    destination: any;
+    // destinations that couldn't supply the block, it isn't sent to them again
+    failed: any[];
     retries: number;
     timeout: any;
     blockRequest: BlockRequest;
     priority: number;
-    callback?: Function,
+    callbacks: Function[],
 };
 
 export default class Request {
@@ -58,6 +63,8 @@ export default class Request {
     private timeout: number;
     private totalActive: number;
     private retries: number;
+    // nothing is sent while paused, requests wait in the queue
+    private paused: boolean;
 
 	private incrementId() {
         this.id++;
@@ -77,51 +84,68 @@ export default class Request {
         return request;
     }
 
+    private notify(request: QueuedBlock, err: any, data?: Uint8Array) {
+        for (const callback of request.callbacks) {
+            callback(err, data);
+        }
+    }
+
+    // returns false if there is nowhere to send the request now
+    private start(request: QueuedBlock) : boolean {
+        this.incrementId();
+        request.blockRequest.id = this.id;
+
+        // send returns null if no destination that hasn't failed is available
+        const destination = this.send(request.blockRequest, request.failed);
+        if (destination === null) {
+            request.blockRequest.id = 0;
+            return false;
+        }
+
+        console.debug('Request::start', request.blockRequest.id, request.blockRequest.name);
+        request.active = true;
+        request.destination = destination;
+
+        request.timeout = setTimeout(() => {
+            if (request.retries < this.retries) {
+                request.blockRequest.id = 0;
+                request.active = false;
+                request.retries++;
+                console.debug('Request::start: timeout', request.retries);
+            }
+            else {
+                // queue may have been sorted or spliced since, so find it again
+                const index = this.requests.indexOf(request);
+                if (index >= 0) {
+                    this.dequeue(index);
+                }
+                this.notify(request, new TimeoutError('block request timed out'));
+            }
+
+            this.totalActive--;
+            this.process();
+        }, this.timeout);
+
+        this.totalActive++;
+        console.debug('Request::start: active requests', this.totalActive);
+        return true;
+    }
+
     private process(): boolean {
 
-        if (this.requests.length === 0 || this.totalActive >= this.concurrent) {
+        if (this.paused || this.requests.length === 0 || this.totalActive >= this.concurrent) {
             return false;
         }
 
-        // sort queue by priority
-        this.requests.sort((a, b) => a.priority - b.priority);
+        // sort queue by priority, highest first
+        this.requests.sort((a, b) => b.priority - a.priority);
 
-        // request top of list up to set concurrency level
+        // request top of list up to set concurrency level, a request
+        // that can't be sent now may still leave others that can
         for (let i = 0; i < this.requests.length; i++) {
             const request = this.requests[i];
-            if (!request.active) {
-                this.incrementId();
-                request.blockRequest.id = this.id;
-                request.active = true;
-
-                console.debug('Request::process', request.blockRequest.id, request.blockRequest.name);
-                this.send(request.blockRequest);
-
-                const index = i;
-                request.timeout = setTimeout(() => {
-                    if (request.retries < this.retries) {
-                        request.blockRequest.id = 0;
-                        request.active = false;
-                        request.retries++;
-                        console.debug('Request::process: timeout', request.retries);
-                    }
-                    else {
-                        if (typeof request.callback === 'function') {
-                    	    request.callback('timeout');
-                    	}
-                        this.dequeue(index);
-                    }
-
-                    this.totalActive--;
-                    this.process();
-                }, this.timeout);
-
-                this.totalActive++;
-                console.debug('Request::process: active requests', this.totalActive);
-
-                if (this.totalActive >= this.concurrent) {
-                    break;
-                }
+            if (!request.active && this.start(request) && this.totalActive >= this.concurrent) {
+                break;
             }
         }
     }
@@ -136,6 +160,8 @@ export default class Request {
         this.concurrent = concurrent;
         this.timeout = timeout;
         this.retries = retries;
+        // nowhere to send requests until connected
+        this.paused = true;
     }
 
     destructor() {
@@ -149,17 +175,25 @@ export default class Request {
         for (const request of this.requests) {
         	if (request.blockRequest.fileId === blockRequest.fileId
             && request.blockRequest.block.offset === blockRequest.block.offset) {
-            	request.priority = priority;
+                // never lower priority, a background refill must not delay a user read
+                if (priority > request.priority) {
+            	    request.priority = priority;
+                }
+                if (typeof callback === 'function') {
+                    request.callbacks.push(callback);
+                }
                 return;
             }
         }
 
     	const request : QueuedBlock = {
             active: false,
+            destination: null,
+            failed: [],
             priority: priority,
             retries: 0,
             timeout: undefined,
-            callback: callback,
+            callbacks: typeof callback === 'function' ? [callback] : [],
             blockRequest: blockRequest,
         };
 
@@ -195,9 +229,7 @@ export default class Request {
     	}
 
         if (request != null) {
-        	if (typeof request.callback === 'function') {
-        	    request.callback('removed');
-        	}
+            this.notify(request, new NotFoundError('file was removed', name));
             this.process();
         }
 
@@ -218,13 +250,12 @@ export default class Request {
 
                 const hash = crypto.createHash('sha256').update(data).digest();
                 if (hash.equals(request.blockRequest.block.hash)) {
-                	if (typeof request.callback === 'function') {
-                	    request.callback(null, data);
-                	}
+                    this.notify(request, null, data);
                 	return request.blockRequest;
                 }
                 else {
                     console.error('Request::received: response hash of downloaded block is not the same as expected');
+                    this.notify(request, new RequestError('block does not match its hash'));
                     return null;
                 }
         	}
@@ -232,7 +263,77 @@ export default class Request {
         return null;
     }
 
+    // the destination couldn't supply the block, it is sent to another destination,
+    // and only once none is left is whoever is waiting for it told why
+    failed(id: number, err: Error) : BlockRequest | null {
+        console.debug('Request::failed:', id);
+
+        for (let i = 0; i < this.requests.length; i++) {
+            const request = this.requests[i];
+            if (request.blockRequest.id === id && request.active) {
+                request.failed.push(request.destination);
+                this.unsend(request);
+                const blockRequest = request.blockRequest;
+
+                if (this.paused || !this.start(request)) {
+                    this.dequeue(this.requests.indexOf(request));
+                    this.notify(request, err);
+                }
+                this.process();
+                return blockRequest;
+            }
+        }
+        return null;
+    }
+
+    private unsend(request: QueuedBlock) {
+        clearTimeout(request.timeout);
+        request.timeout = undefined;
+        request.blockRequest.id = 0;
+        request.active = false;
+        request.destination = null;
+        this.totalActive--;
+    }
+
+    // stop sending, requests already sent are queued again so they are sent
+    // once resumed, rather than timing out while there is no connection
+    pause() {
+        this.paused = true;
+
+        for (const request of this.requests) {
+            if (request.active) {
+                this.unsend(request);
+            }
+        }
+    }
+
+    // requests sent to destination will never be answered, send them again elsewhere
+    requeue(destination: any) {
+        for (const request of this.requests) {
+            if (request.active && request.destination === destination) {
+                this.unsend(request);
+            }
+        }
+        this.process();
+    }
+
+    resume() {
+        this.paused = false;
+        this.process();
+    }
+
     queueLength() {
     	return this.requests.length;
     }
+
+    // files with blocks waiting or being fetched
+    queuedFiles() : BlockRequest[] {
+        const files = new Map<number, BlockRequest>();
+        for (const request of this.requests) {
+            if (!files.has(request.blockRequest.fileId)) {
+                files.set(request.blockRequest.fileId, request.blockRequest);
+            }
+        }
+        return Array.from(files.values());
+    }
 }
@@ -18,7 +18,7 @@ along with Syncthing TS.  If not, see <https://www.gnu.org/licenses/>.
 import BetterSqlite3 from 'better-sqlite3';
 import { randomBytes } from 'crypto';
 
-import { Device, Folder, Directory, File, Block } from './constants'
+import { Device, Folder, Directory, File, Block, FileFlags, SyncStatus } from './constants'
 
 export interface DeviceRow {
     id: Uint8Array;
@@ -28,6 +28,8 @@ export interface DeviceRow {
     maxSequence: number;
     maxSequenceInternal: number;
     indexId: Uint8Array;
+    // sequence of our entries this device has seen
+    sentSequence: number;
 };
 
 export interface FolderRow {
@@ -69,12 +71,44 @@ export interface FileRow {
     sync: number;
 };
 
+export interface LocalFileRow extends FileRow {
+    directoryName: string;
+};
+
 export interface BlockRow {
     fileId: number;
     offset: number;
     size: number;
     hash: Uint8Array;
     cached: number;
+    accessed?: number;
+};
+
+export interface BlockPathRow extends BlockRow {
+    folder: string;
+    directoryName: string;
+    fileName: string;
+};
+
+export interface PinnedRow {
+    folder: string;
+    directoryName: string;
+    fileName: string;
+    sync: number;
+};
+
+export interface CacheUsageRow {
+    folder: string;
+    blocks: number;
+    size: number;
+    pinnedSize: number;
+};
+
+export interface SyncProgressRow {
+    blocks: number;
+    cachedBlocks: number;
+    size: number;
+    cachedSize: number;
 };
 
 // TODO: create indexes to improve performance, especially on block table
@@ -86,7 +120,7 @@ interface EditData {
     values: any[];
 }
 
-const SCHEMA_VERSION = 1;
+const SCHEMA_VERSION = 3;
 // setting minimum connections prevents connections in lower array index from auto closing
 const MIN_CONNECTIONS = 5;
 const MAX_CONNECTIONS = 100;
@@ -107,7 +141,7 @@ export default class Sqlite {
         let version;
 
         try {
-            version = this.get('SELECT version from schema');
+            version = this.get('SELECT version from schema').version;
         }
         catch (err) {
             if (err.code === 'SQLITE_ERROR') {
@@ -128,7 +162,12 @@ export default class Sqlite {
         console.debug('Sqlite:: schema version ', version);
         // if we need to update schema do it here
         if (version < SCHEMA_VERSION) {
-
+            try {
+                this.updateSchema(version);
+            } catch (err) {
+                console.error('Sqlite:: can not update schema from version', version);
+                throw (err);
+            }
         }
     }
 
@@ -166,6 +205,7 @@ export default class Sqlite {
                 maxSequence integer,
                 maxSequenceInternal integer,
                 indexId blob,
+                sentSequence integer,
                 UNIQUE (id, folderId)
             )`
         );
@@ -208,6 +248,7 @@ export default class Sqlite {
         );
 
         // cached 0 - none, 1 - cached, 2 - cache stale
+        // accessed is time in ms the cached block was last written or read
         this.run(`
             CREATE TABLE block (
                 fileId integer NOT NULL,
@@ -215,10 +256,20 @@ export default class Sqlite {
                 size integer,
                 hash blob,
                 cached integer,
+                accessed integer,
                 UNIQUE (fileId, offset)
             )`
         );
 
+        // devices that have the same version of a file as us, so can be asked for its blocks
+        this.run(`
+            CREATE TABLE availability (
+                fileId integer NOT NULL,
+                deviceId blob NOT NULL,
+                UNIQUE (fileId, deviceId)
+            )`
+        );
+
         // Insert schema version
         this.run(`
             INSERT INTO schema
@@ -231,6 +282,37 @@ export default class Sqlite {
         return SCHEMA_VERSION;
     }
 
+    private updateSchema(version: number) {
+        const connection = this.startTransaction();
+
+        try {
+            if (version < 2) {
+                console.debug('Sqlite:: updating schema to version 2');
+                this.exec('ALTER TABLE block ADD COLUMN accessed integer', connection);
+            }
+
+            if (version < 3) {
+                console.debug('Sqlite:: updating schema to version 3');
+                this.exec('ALTER TABLE device ADD COLUMN sentSequence integer', connection);
+                this.exec(`
+                    CREATE TABLE availability (
+                        fileId integer NOT NULL,
+                        deviceId blob NOT NULL,
+                        UNIQUE (fileId, deviceId)
+                    )`,
+                    connection
+                );
+            }
+
+            this.run('UPDATE schema SET version = ?', [SCHEMA_VERSION], connection);
+            this.commitTransaction(connection);
+        }
+        catch (err) {
+            this.rollbackTransaction(connection);
+            throw(err);
+        }
+    }
+
     private autoClose(connection: any) {
         // do NOT auto close connection for minimum number of connections
         if (connection.index < MIN_CONNECTIONS) {
@@ -532,6 +614,11 @@ export default class Sqlite {
         return this.update('device', data, {id: deviceId, folderId: folderId}, connection);
     }
 
+    // each peer's entry holds the sequence of our entries it has seen
+    updateSentSequence(deviceId: Uint8Array, folderId: number, sentSequence: number, connection?: any) {
+        return this.update('device', {sentSequence: sentSequence}, {id: deviceId, folderId: folderId}, connection);
+    }
+
     getDevice(folderId: number, id: Uint8Array, connection? :any) : DeviceRow {
         const deviceRow = this.get(`SELECT *
             FROM device
@@ -567,6 +654,7 @@ export default class Sqlite {
             addresses: device.addresses,
             maxSequence: device.maxSequence,
             indexId: device.indexId,
+            sentSequence: 0,
         };
 
         // if this is us we need to generate a new index id
@@ -605,6 +693,22 @@ export default class Sqlite {
         return folderRow;
     }
 
+    getFolderPath(path: string, connection? :any) : FolderRow {
+        const folderRow = this.get(`
+            SELECT *
+            FROM folder
+            WHERE path = ?`,
+            [path],
+            connection
+        );
+
+        if (folderRow === undefined) {
+            return null;
+        }
+
+        return folderRow;
+    }
+
     getFolders(connection? :any) : FolderRow[] {
         return this.all(`
             SELECT *
@@ -638,9 +742,9 @@ export default class Sqlite {
 
     getDirectoriesParent(folderId: number, parentName: string, connection?: any) : DirectoryRow[] {
         return this.all(
-            `SELECT id, folderId, replace(name, ?, "") AS name, permissions, modifiedS, modifiedNs, modifiedBy, flags, sequence, version, sync
+            `SELECT id, folderId, replace(name, ?, '') AS name, permissions, modifiedS, modifiedNs, modifiedBy, flags, sequence, version, sync
             FROM directory
-            WHERE folderId = ? AND name LIKE ? || "_%" AND name NOT LIKE ? || "%/%"`,
+            WHERE folderId = ? AND name LIKE ? || '_%' AND name NOT LIKE ? || '%/%'`,
             [parentName, folderId, parentName, parentName],
             connection
         );
@@ -661,6 +765,20 @@ export default class Sqlite {
         return directoryRow;
     }
 
+    // all directories below name, parents are ordered before their children
+    getDirectoriesBelow(folderId: number, name: string, connection?: any) : DirectoryRow[] {
+        const prefix = name.endsWith('/') ? name : name + '/';
+
+        return this.all(
+            `SELECT *
+            FROM directory
+            WHERE folderId = ? AND name != ? AND substr(name, 1, ?) = ?
+            ORDER BY name`,
+            [folderId, name, prefix.length, prefix],
+            connection
+        );
+    }
+
     getDirectoryFolderPath(folderPath: string, name: string, connection?: any) : DirectoryRow {
         const directoryRow = this.get(
             `SELECT directory.*
@@ -712,6 +830,55 @@ export default class Sqlite {
         return this.update('directory', data, {id: id}, connection);
     }
 
+    getLocalDirectories(folderId: number, modifiedBy: Uint8Array, sequence: number, connection?: any) : DirectoryRow[] {
+        return this.all(
+            `SELECT *
+            FROM directory
+            WHERE folderId = ? AND modifiedBy = ? AND sequence > ?
+            ORDER BY name`,
+            [folderId, modifiedBy, sequence],
+            connection
+        );
+    }
+
+    getLocalFiles(folderId: number, modifiedBy: Uint8Array, sequence: number, connection?: any) : LocalFileRow[] {
+        return this.all(
+            `SELECT file.*, directory.name AS directoryName
+            FROM file
+            LEFT JOIN directory
+            ON file.directoryId = directory.id
+            WHERE directory.folderId = ? AND file.modifiedBy = ? AND file.sequence > ?
+            ORDER BY directory.name, file.name`,
+            [folderId, modifiedBy, sequence],
+            connection
+        );
+    }
+
+    // entries changed by anyone, not just us
+    getChangedDirectories(folderId: number, sequence: number, connection?: any) : DirectoryRow[] {
+        return this.all(
+            `SELECT *
+            FROM directory
+            WHERE folderId = ? AND sequence > ?
+            ORDER BY sequence`,
+            [folderId, sequence],
+            connection
+        );
+    }
+
+    getChangedFiles(folderId: number, sequence: number, connection?: any) : LocalFileRow[] {
+        return this.all(
+            `SELECT file.*, directory.name AS directoryName
+            FROM file
+            LEFT JOIN directory
+            ON file.directoryId = directory.id
+            WHERE directory.folderId = ? AND file.sequence > ?
+            ORDER BY file.sequence`,
+            [folderId, sequence],
+            connection
+        );
+    }
+
     getFileParentName(folderPath: string, directoryName: string, name: string, connection?: any) : FileRow {
         const fileRow = this.get(`
             SELECT file.*
@@ -850,6 +1017,60 @@ export default class Sqlite {
         return this.delete('block', {fileId: fileId, offset: offset}, connection);
     }
 
+    updateBlockAccessed(fileId: number, offset: number, accessed: number, connection?: any) {
+        return this.update('block', {accessed: accessed}, {fileId: fileId, offset: offset}, connection);
+    }
+
+    // only clear if still in the expected state, the block may have been fetched again
+    // while the cached copy was being deleted
+    clearBlockCached(fileId: number, offset: number, cached: number, connection?: any) {
+        return this.update('block', {cached: 0, accessed: null}, {fileId: fileId, offset: offset, cached: cached}, connection);
+    }
+
+    addAvailability(fileId: number, deviceId: Uint8Array, connection?: any) {
+        return this.run(`
+            INSERT OR IGNORE INTO availability
+            (fileId, deviceId)
+            VALUES (?, ?)`,
+            [fileId, deviceId],
+            connection
+        );
+    }
+
+    deleteAvailability(fileId: number, deviceId: Uint8Array, connection?: any) {
+        return this.delete('availability', {fileId: fileId, deviceId: deviceId}, connection);
+    }
+
+    // no other device has this version of the file
+    clearAvailability(fileId: number, connection?: any) {
+        return this.delete('availability', {fileId: fileId}, connection);
+    }
+
+    clearDeviceAvailability(folderId: number, deviceId: Uint8Array, connection?: any) {
+        return this.run(`
+            DELETE FROM availability
+            WHERE deviceId = ? AND fileId IN (
+                SELECT file.id
+                FROM file
+                LEFT JOIN directory
+                ON file.directoryId = directory.id
+                WHERE directory.folderId = ?
+            )`,
+            [deviceId, folderId],
+            connection
+        );
+    }
+
+    getAvailability(fileId: number, connection?: any) : Uint8Array[] {
+        return this.all(
+            `SELECT deviceId
+            FROM availability
+            WHERE fileId = ?`,
+            [fileId],
+            connection
+        ).map((row) => row.deviceId);
+    }
+
     getBlocksOffset(folderPath: string, directoryName: string, fileName: string, position: number, length: number, connection? :any) : BlockRow[] {
         return this.all(
             `SELECT block.*
@@ -871,4 +1092,164 @@ export default class Sqlite {
             connection
         );
     }
+
+    // blocks of files set to sync that are not cached or are stale, ignoring
+    // zero size stale blocks, these only exist to clean up the cache
+    getBlocksToRequest(limit: number, connection? :any) : BlockPathRow[] {
+        return this.all(
+            `SELECT block.*, folder.idString AS folder, directory.name AS directoryName, file.name AS fileName
+            FROM block
+            LEFT JOIN file
+            ON block.fileId = file.id
+            LEFT JOIN directory
+            ON file.directoryId = directory.id
+            LEFT JOIN folder
+            ON directory.folderId = folder.id
+            WHERE
+                (block.cached = 0 OR block.cached = 2)
+                AND block.size > 0
+                AND file.sync > ${SyncStatus.none}
+                AND (file.flags & ${FileFlags.deleted | FileFlags.invalid}) = 0
+            ORDER BY block.fileId, block.offset
+            LIMIT ?`,
+            [limit],
+            connection
+        );
+    }
+
+    // sync is set on the directory and every directory and file below it
+    updateDirectorySyncRecursive(folderId: number, name: string, sync: number, connection? :any) {
+        const prefix = name.endsWith('/') ? name : name + '/';
+
+        this.run(
+            `UPDATE directory
+            SET sync = ?
+            WHERE folderId = ? AND (name = ? OR substr(name, 1, ?) = ?)`,
+            [sync, folderId, name, prefix.length, prefix],
+            connection
+        );
+
+        return this.run(
+            `UPDATE file
+            SET sync = ?
+            WHERE directoryId IN (
+                SELECT id
+                FROM directory
+                WHERE folderId = ? AND (name = ? OR substr(name, 1, ?) = ?)
+            )`,
+            [sync, folderId, name, prefix.length, prefix],
+            connection
+        );
+    }
+
+    getPinnedDirectories(connection? :any) : PinnedRow[] {
+        return this.all(
+            `SELECT folder.path AS folder, directory.name AS directoryName, '' AS fileName, directory.sync
+            FROM directory
+            LEFT JOIN folder
+            ON directory.folderId = folder.id
+            WHERE directory.sync > ${SyncStatus.none}
+            ORDER BY folder.path, directory.name`,
+            [],
+            connection
+        );
+    }
+
+    // files that don't inherit their sync from the parent directory
+    getPinnedFiles(connection? :any) : PinnedRow[] {
+        return this.all(
+            `SELECT folder.path AS folder, directory.name AS directoryName, file.name AS fileName, file.sync
+            FROM file
+            LEFT JOIN directory
+            ON file.directoryId = directory.id
+            LEFT JOIN folder
+            ON directory.folderId = folder.id
+            WHERE file.sync > ${SyncStatus.none} AND file.sync != directory.sync
+            ORDER BY folder.path, directory.name, file.name`,
+            [],
+            connection
+        );
+    }
+
+    getStaleBlocks(limit: number, connection? :any) : BlockPathRow[] {
+        return this.all(
+            `SELECT block.*, folder.idString AS folder, directory.name AS directoryName, file.name AS fileName
+            FROM block
+            LEFT JOIN file
+            ON block.fileId = file.id
+            LEFT JOIN directory
+            ON file.directoryId = directory.id
+            LEFT JOIN folder
+            ON directory.folderId = folder.id
+            WHERE block.cached = 2
+            LIMIT ?`,
+            [limit],
+            connection
+        );
+    }
+
+    // cached blocks of files not set to sync, least recently used first
+    // files last modified locally may be the only copy, so these are never evicted
+    getEvictableBlocks(limit: number, localModifiedBy: Uint8Array, connection? :any) : BlockPathRow[] {
+        return this.all(
+            `SELECT block.*, folder.idString AS folder, directory.name AS directoryName, file.name AS fileName
+            FROM block
+            LEFT JOIN file
+            ON block.fileId = file.id
+            LEFT JOIN directory
+            ON file.directoryId = directory.id
+            LEFT JOIN folder
+            ON directory.folderId = folder.id
+            WHERE block.cached = 1 AND file.sync = ${SyncStatus.none} AND file.modifiedBy != ?
+            ORDER BY block.accessed
+            LIMIT ?`,
+            [localModifiedBy, limit],
+            connection
+        );
+    }
+
+    getCacheUsage(connection? :any) : CacheUsageRow[] {
+        return this.all(
+            `SELECT
+                folder.idString AS folder,
+                count(*) AS blocks,
+                total(block.size) AS size,
+                total(CASE WHEN file.sync > ${SyncStatus.none} THEN block.size ELSE 0 END) AS pinnedSize
+            FROM block
+            LEFT JOIN file
+            ON block.fileId = file.id
+            LEFT JOIN directory
+            ON file.directoryId = directory.id
+            LEFT JOIN folder
+            ON directory.folderId = folder.id
+            WHERE block.cached > 0
+            GROUP BY folder.idString`,
+            [],
+            connection
+        );
+    }
+
+    getSyncProgress(folderIdString: string, connection? :any) : SyncProgressRow {
+        return this.get(
+            `SELECT
+                count(*) AS blocks,
+                total(block.cached = 1) AS cachedBlocks,
+                total(block.size) AS size,
+                total(CASE WHEN block.cached = 1 THEN block.size ELSE 0 END) AS cachedSize
+            FROM block
+            LEFT JOIN file
+            ON block.fileId = file.id
+            LEFT JOIN directory
+            ON file.directoryId = directory.id
+            LEFT JOIN folder
+            ON directory.folderId = folder.id
+            WHERE
+                folder.idString = ?
+                AND block.size > 0
+                AND file.sync > ${SyncStatus.none}
+                AND (file.flags & ${FileFlags.deleted | FileFlags.invalid}) = 0`,
+            [folderIdString],
+            connection
+        );
+    }
 }
@@ -16,70 +16,742 @@ along with Syncthing TS.  If not, see <https://www.gnu.org/licenses/>.
 */
 
 import { EventEmitter } from 'events';
+import { readFileSync } from 'fs';
+import { TLSSocket } from 'tls';
 
-import { Cluster, Index, Response, ListEntry, ListEntryType  } from './constants';
-import { DiscoverReply, discover } from './discover';
-import Communication, { ProtocolMessage } from './communication';
+import { Cluster, Index, Response, PeerRequest, ErrorCode, ListEntry, ListEntryType, SyncProgress, SyncStatus, Pin, CacheUsage, Block, File as FileEntry, Compression,
+    DownloadProgress, ProgressUpdate, ProgressUpdateType, FileProgress, Hello, CachedBlock, ChangeSet } from './constants';
+import { ProtocolMessage } from './communication';
 import Database from './database';
 import File from './file';
 import Authentication, { DeviceId } from './authentication';
+import Peer, { AddressResolver } from './peer';
+import Listener from './listener';
+import RelayListener from './relayListener';
+import LocalDiscovery from './localDiscovery';
+import GlobalDiscovery from './globalDiscovery';
+import RelayPool from './relayPool';
+import { DEFAULT_DISCOVERY_SERVERS } from './discover';
+import { SyncthingError, RequestError, InvalidArgumentError, InvalidOperationError, NotFoundError, CacheCorruptionError } from './errors';
 import Request, { BlockRequest, RequestPriority } from './request';
 
 // number of concurrent blocks to request
 const CONCURRENT_BLOCK_REQUESTS = 5;
 // timeout to flag request as failed
 const BLOCK_REQUEST_TIMEOUT = 2000;
+// refill background requests when queue drops below low water mark, up to the high water mark
+const BACKGROUND_QUEUE_LOW = 2 * CONCURRENT_BLOCK_REQUESTS;
+const BACKGROUND_QUEUE_HIGH = 10 * CONCURRENT_BLOCK_REQUESTS;
+// default size the cache can grow to before unpinned blocks are evicted (1GB)
+const DEFAULT_CACHE_SIZE = 1073741824;
+// number of blocks to fetch from database on each pass of deleting cached blocks
+const DELETE_BLOCKS_LIMIT = 100;
+// delay checking cache size after blocks are written, so it isn't checked on every block
+const CACHE_CHECK_DELAY = 5000;
+// delay sending local changes, so a run of changes is sent as one index update
+const INDEX_UPDATE_DELAY = 1000;
+// largest read, 10MB
+const MAX_READ_LENGTH = 10485760;
+// how often peers are told which blocks of the files we are fetching we already have
+const DOWNLOAD_PROGRESS_INTERVAL = 5000;
+// least time between reconnecting to a peer to fetch its whole index again
+const INDEX_REFETCH_INTERVAL = 600000;
+
+// blocks of one version of a file, by folder and then name
+type ProgressFiles = Map<string, Map<string, { version: string, blockIndexes: Set<number> }>>;
 
 interface BlockRead {
 	blockRequest: BlockRequest;
 	data: Promise<Uint8Array>;
 };
 
+// events and the arguments listeners are called with, device IDs are strings,
+// folders are folder IDs and paths start with the folder path
+export interface SyncthingEvents {
+    // cluster configs have been exchanged, hello is null if the peer never sent one
+    connected: (deviceId: string, address: string, hello: Hello | null) => void;
+    // the reason either side gave for closing, or why the connection was lost
+    disconnected: (deviceId: string, reason: string) => void;
+    // entries a peer's index changed here, changesSince the set's sequence continues from it
+    indexUpdated: (changes: ChangeSet) => void;
+    blockCached: (block: CachedBlock) => void;
+    cacheEvicted: (block: CachedBlock) => void;
+    // both sides changed the file, ours is kept as a conflict copy
+    conflict: (path: string) => void;
+    progress: (progress: SyncProgress) => void;
+    // deviceId is given for errors on a peer's connection
+    error: (error: SyncthingError, deviceId?: string) => void;
+    // something went wrong that is recovered from, unlike error it is safe to leave unhandled
+    warning: (error: SyncthingError) => void;
+};
+
 export default class Syncthing {
 	private requests: Request;
     private database: Database;
-    private communication: Communication;
+    private peers = new Map<string, Peer>();
+    private listener: Listener;
+    private listenPort: number;
+    private relayListener: RelayListener;
+    private localDiscovery: LocalDiscovery;
+    private globalDiscovery: GlobalDiscovery;
+    private relayPool = new RelayPool();
+    // block requests are spread across peers in turn
+    private nextPeer = 0;
+    private localId: DeviceId;
+    private name: string;
+    private certPath: string;
+    private keyPath: string;
     private cachePath: string;
-    private peerId: DeviceId;
+    private cacheSize: number;
+    private cacheCheckTimer: any;
+    private deletingBlocks = false;
     private event = new EventEmitter();
+    private requestingBlocks = false;
+    private compression = Compression.metadata;
+    private downloadProgressTimer: any;
+    // what each peer has been told about our downloads, and what each peer has told us about theirs
+    private sentProgress = new Map<string, ProgressFiles>();
+    private peerProgress = new Map<string, ProgressFiles>();
+    private indexUpdateTimer: any;
+    private indexUpdateFolders = new Set<string>();
+    // when each peer's index was last fetched again because it looked out of date
+    private indexRefetched = new Map<string, number>();
+
+    private emit<E extends keyof SyncthingEvents>(event: E, ...args: Parameters<SyncthingEvents[E]>) {
+        this.event.emit(event, ...args);
+    }
+
+    private cachedBlock(blockRequest: BlockRequest) : CachedBlock {
+        return {
+            folder: blockRequest.folder,
+            name: blockRequest.name,
+            offset: blockRequest.block.offset,
+            size: blockRequest.block.size,
+        };
+    }
+
+    private connectedPeers() : Peer[] {
+        return Array.from(this.peers.values()).filter((peer) => peer.connected);
+    }
+
+    // peers partway through downloading our version of the file, that already have the block
+    private progressPeers(blockRequest: BlockRequest, connected: Peer[]) : Peer[] {
+        const progressFile = (peer: Peer) => {
+            const files = this.peerProgress.get(peer.id.asString);
+            const folderFiles = files ? files.get(blockRequest.folder) : undefined;
+            return folderFiles ? folderFiles.get(blockRequest.name) : undefined;
+        };
+
+        const peers = connected.filter((peer) => progressFile(peer) !== undefined);
+        if (peers.length === 0) {
+            return [];
+        }
+
+        const file = this.database.folderFile(blockRequest.folder, blockRequest.name);
+        if (file === null || file.blockSize === 0) {
+            return [];
+        }
+
+        const blockIndex = blockRequest.block.offset / file.blockSize;
+        return peers.filter((peer) => {
+            const progress = progressFile(peer);
+            return progress.version === file.version && progress.blockIndexes.has(blockIndex);
+        });
+    }
+
+    // send to a connected peer that has the block, skipping peers that failed to supply it,
+    // returns where it was sent or null if no other peer is connected
+    private sendRequest(blockRequest: BlockRequest, failed: string[] = []) : string | null {
+        const connected = this.connectedPeers().filter((peer) => !failed.includes(peer.id.asString));
+        if (connected.length === 0) {
+            return null;
+        }
+
+        const devices = this.database.fileDevices(blockRequest.fileId);
+        let candidates = connected.filter((peer) => devices.some((device) => Buffer.from(device).equals(Buffer.from(peer.id.asBytes))));
+        for (const peer of this.progressPeers(blockRequest, connected)) {
+            if (!candidates.includes(peer)) {
+                candidates.push(peer);
+            }
+        }
+        // if we don't know who has it, any peer may
+        if (candidates.length === 0) {
+            candidates = connected;
+        }
+
+        const peer = candidates[this.nextPeer++ % candidates.length];
+        console.debug('Syncthing::sendRequest', peer.id.asString, blockRequest);
+        peer.communication.requestBlock(blockRequest);
+        return peer.id.asString;
+    }
 
     private requestBlocks() {
-/*     	const queueLength = this.requests.queueLength();
-        const numRequests = (10 * CONCURRENT_BLOCK_REQUESTS) - queueLength;
+        // adding to the queue fires queueChange, which calls back into here
+        if (this.connectedPeers().length === 0 || this.requestingBlocks) {
+            return;
+        }
 
-        // if we have less than 2 * the concurrent limit try to fill it to 10 *
+        // only refill once the queue has drained to the low water mark,
         // this will reduce database reads
-        if (queueLength < (2 * CONCURRENT_BLOCK_REQUESTS)) {
-            const blocks = this.database.blocksToRequest(numRequests);
-            for (const block of blocks) {
-                this.requests.add(block.file_id, block.folder_id, block.name, block.size, block.offset, block.hash, RequestPriority.background);
+        if (this.requests.queueLength() >= BACKGROUND_QUEUE_LOW) {
+            return;
+        }
+
+        this.requestingBlocks = true;
+        try {
+            // blocks already queued are returned again, but add ignores duplicates
+            const blockRequests = this.database.blocksToRequest(BACKGROUND_QUEUE_HIGH);
+            for (const blockRequest of blockRequests) {
+                this.requests.add(blockRequest, RequestPriority.background);
+            }
+        }
+        catch (e) {
+            console.error('Syncthing::requestBlocks: failed to queue blocks', e);
+        }
+        finally {
+            this.requestingBlocks = false;
+        }
+    }
+
+    private emitProgress(folder: string) {
+        const progress: SyncProgress = this.database.syncProgress(folder);
+        // only report on folders that have something set to sync
+        if (progress.blocks > 0) {
+            this.emit('progress', progress);
+        }
+    }
+
+    private async deleteCachedBlocks(blockRequests: BlockRequest[]) {
+        for (const blockRequest of blockRequests) {
+            const path = File.path(this.cachePath, blockRequest.folder, blockRequest.fileId, blockRequest.block.offset);
+            await File.deleteBlock(path);
+            this.database.removeCachedBlock(blockRequest);
+            this.emit('cacheEvicted', this.cachedBlock(blockRequest));
+        }
+    }
+
+    private async deleteBlocks() {
+        // deleting is async, don't start another pass until this one has finished
+        if (this.deletingBlocks) {
+            return;
+        }
+
+        this.deletingBlocks = true;
+        try {
+            // stale blocks can never be read, always remove them
+            let blockRequests = this.database.blocksToDelete(DELETE_BLOCKS_LIMIT);
+            while (blockRequests.length) {
+                await this.deleteCachedBlocks(blockRequests);
+                blockRequests = this.database.blocksToDelete(DELETE_BLOCKS_LIMIT);
+            }
+
+            // then evict least recently used blocks that aren't pinned until under budget
+            let used = this.cacheUsage().reduce((total, usage) => total + usage.size, 0);
+            while (used > this.cacheSize) {
+                blockRequests = this.database.blocksToEvict(used - this.cacheSize, DELETE_BLOCKS_LIMIT);
+                if (blockRequests.length === 0) {
+                    console.debug('Syncthing::deleteBlocks: cache over size, but only pinned blocks remain');
+                    break;
+                }
+
+                await this.deleteCachedBlocks(blockRequests);
+                used -= blockRequests.reduce((total, blockRequest) => total + blockRequest.block.size, 0);
+            }
+        }
+        catch (e) {
+            console.error('Syncthing::deleteBlocks: failed to delete cached blocks', e);
+        }
+        finally {
+            this.deletingBlocks = false;
+        }
+    }
+
+    private scheduleDeleteBlocks() {
+        if (this.cacheCheckTimer) {
+            return;
+        }
+
+        this.cacheCheckTimer = setTimeout(() => {
+            this.cacheCheckTimer = undefined;
+            this.deleteBlocks();
+        }, CACHE_CHECK_DELAY);
+    }
+
+    // send entries changed locally that the peer hasn't seen yet,
+    // initial is set when first connected, as a full index must always be sent then
+    private sendLocalIndex(peer: Peer, folder: string, initial = false) {
+        const sequence = this.database.indexSequence(folder, peer.id.asBytes);
+        if (sequence === null) {
+            return;
+        }
+        const index = this.database.localIndex(folder, sequence);
+
+        let maxSequence = sequence;
+        for (const directory of index.directories) {
+            maxSequence = Math.max(maxSequence, directory.sequence);
+            for (const file of directory.files) {
+                maxSequence = Math.max(maxSequence, file.sequence);
+            }
+        }
+
+        // if the peer has nothing from us, the index replaces anything it had,
+        // otherwise only send the changes
+        if (sequence === 0 && (initial || maxSequence > sequence)) {
+            peer.communication.sendIndex(index);
+        }
+        else if (maxSequence > sequence) {
+            peer.communication.sendIndex(index, true);
+        }
+
+        this.database.indexSent(folder, peer.id.asBytes, maxSequence);
+    }
+
+    // changes are batched, so a run of writes only sends one index update
+    private queueLocalIndex(folder: string | null) {
+        if (folder === null) {
+            return;
+        }
+        this.indexUpdateFolders.add(folder);
+
+        if (this.indexUpdateTimer) {
+            return;
+        }
+
+        this.indexUpdateTimer = setTimeout(() => {
+            this.indexUpdateTimer = undefined;
+
+            // any peer not connected is sent changes when it connects
+            for (const peer of this.connectedPeers()) {
+                for (const folder of this.indexUpdateFolders) {
+                    this.sendLocalIndex(peer, folder);
+                }
+            }
+            this.indexUpdateFolders.clear();
+        }, INDEX_UPDATE_DELAY);
+    }
+
+    // store a file changed locally, blockData holds the data of any blocks that changed
+    private async commitLocalFile(path: string, size: number, blockSize: number, blocks: Block[], blockData: Map<number, Uint8Array>) {
+        const blockRequests = this.database.updateLocalFile(path, size, blockSize, blocks, Date.now());
+
+        try {
+            // we are the only source of this data, so it must be cached before the peer requests it
+            for (const blockRequest of blockRequests) {
+                const block = blockRequest.block;
+                const data = blockData.get(block.offset);
+                if (data === undefined) {
+                    continue;
+                }
+
+                const cachePath = File.path(this.cachePath, blockRequest.folder, blockRequest.fileId, block.offset);
+                await File.writeBlock(cachePath, data);
+                block.cached = 1;
+                this.database.updateBlock(blockRequest);
+                this.database.touchBlock(blockRequest);
+                this.emit('blockCached', this.cachedBlock(blockRequest));
+            }
+        }
+        catch (e) {
+            console.error('Syncthing::commitLocalFile: failed to cache blocks', e.message);
+            throw e;
+        }
+
+        this.queueLocalIndex(blockRequests[0].folder);
+        this.scheduleDeleteBlocks();
+    }
+
+    // change file to size with data written at position,
+    // only the blocks covering the change are read and rehashed
+    private async rewrite(path: string, file: FileEntry | null, size: number, position: number, data: Uint8Array) {
+        const oldSize = file ? file.size : 0;
+        const oldBlocks = file ? file.blocks : [];
+
+        // all blocks but the last must be the same size, keep the existing size unless
+        // the file is a single block, which is rebuilt anyway
+        const blockSize = oldBlocks.length > 1 ? oldBlocks[0].size : File.blockSize(size);
+        const changeStart = Math.min(position, oldSize, size);
+        const changeEnd = size !== oldSize ? size : position + data.length;
+
+        const start = oldBlocks.length > 1 ? Math.floor(changeStart / blockSize) * blockSize : 0;
+        const end = Math.min(size, Math.ceil(changeEnd / blockSize) * blockSize);
+
+        try {
+            // anything past the old end of the file is zero filled
+            const buffer = new Uint8Array(Math.max(end - start, 0));
+            const readEnd = Math.min(end, oldSize);
+            for (let offset = start; offset < readEnd; offset += MAX_READ_LENGTH) {
+                const length = Math.min(MAX_READ_LENGTH, readEnd - offset);
+                const existing = await this.read(path, offset, length);
+                // a peer shortened the file since we looked it up
+                if (existing.length !== length) {
+                    throw new InvalidOperationError('file changed while being rewritten', path);
+                }
+                buffer.set(existing, offset - start);
+            }
+            buffer.set(data, position - start);
+
+            const blocks = oldBlocks.filter((block) => block.offset < start);
+            const blockData = new Map<number, Uint8Array>();
+            if (end > start || size === 0) {
+                for (const block of File.hashBlocks(buffer, blockSize)) {
+                    blockData.set(block.offset + start, buffer.subarray(block.offset, block.offset + block.size));
+                    block.offset += start;
+                    blocks.push(block);
+                }
             }
-        } */
+            blocks.push(...oldBlocks.filter((block) => block.offset >= end && block.offset < size));
+
+            await this.commitLocalFile(path, size, blockSize, blocks, blockData);
+        }
+        catch (e) {
+            console.error('Syncthing::rewrite: failed to change file', path, e.message);
+            throw e;
+        }
+    }
+
+    // addresses we can be reached on, the host of a direct address is filled in by devices receiving the announcement
+    private announceAddresses() {
+        const addresses = [];
+        if (this.listenPort) {
+            addresses.push('tcp://0.0.0.0:' + this.listenPort);
+        }
+        if (this.relayListener && this.relayListener.relay) {
+            addresses.push(this.relayListener.relay);
+        }
+
+        if (this.localDiscovery) {
+            this.localDiscovery.setAddresses(addresses);
+        }
+        this.globalDiscovery.setAddresses(addresses);
+    }
+
+    private addPeer(peerId: DeviceId, url: string | null) : Peer {
+        // relays the peer advertises are tried after direct addresses, nearest first
+        const resolvers: AddressResolver[] = [
+            async (id: DeviceId) => {
+                const addresses = this.localDiscovery ? this.localDiscovery.lookup(id.asString) : [];
+                return await this.relayPool.sortAddresses(addresses);
+            },
+            async (id: DeviceId) => {
+                return await this.relayPool.sortAddresses(await this.globalDiscovery.lookup(id));
+            },
+        ];
+        const peer = new Peer(peerId, url, resolvers, this.certPath, this.keyPath, this.name);
+        peer.communication.setCompression(this.compression);
+
+        peer.on('message', async (type, message) => {
+            await this.processPeerMessage(peer, type, message);
+        });
+
+        peer.on('error', (error: SyncthingError) => {
+            this.emit('error', error, peerId.asString);
+        });
+
+        // listeners can decide from the reason whether to connect again later
+        peer.on('disconnected', (reason: string) => {
+            this.peerDisconnected(peer);
+            this.emit('disconnected', peerId.asString, reason);
+        });
+
+        this.peers.set(peerId.asString, peer);
+        return peer;
     }
 
-    private deleteBlocks() {
-        //const blocks = this.database.blocksToDelete(20);
-        // TODO: delete cached blocks and remove from database
+    // a device connected to our listener
+    private async acceptPeer(socket: TLSSocket, peerId: DeviceId) {
+        let peer = this.peers.get(peerId.asString);
+
+        // like Syncthing, only one connection to each device
+        if (peer && peer.connected) {
+            console.debug('Syncthing::acceptPeer: already connected to device', peerId.asString);
+            socket.destroy();
+            return;
+        }
+
+        // a peer we haven't connected out to is only reachable while it connects to us
+        if (!peer) {
+            peer = this.addPeer(peerId, null);
+        }
+        await peer.accept(socket);
     }
 
-    private async processPeerMessage(type: ProtocolMessage, message: Cluster | Index | Response) {
+    // files we are fetching, with the blocks of each we already have
+    private currentProgress() : ProgressFiles {
+        const progress: ProgressFiles = new Map();
+
+        for (const blockRequest of this.requests.queuedFiles()) {
+            const file = this.database.folderFile(blockRequest.folder, blockRequest.name);
+            if (file === null || file.blockSize === 0) {
+                continue;
+            }
+
+            const blockIndexes = new Set<number>();
+            for (const block of file.blocks) {
+                if (block.cached === 1) {
+                    blockIndexes.add(block.offset / file.blockSize);
+                }
+            }
+            if (blockIndexes.size === 0) {
+                continue;
+            }
+
+            if (!progress.has(blockRequest.folder)) {
+                progress.set(blockRequest.folder, new Map());
+            }
+            progress.get(blockRequest.folder).set(blockRequest.name, {
+                version: file.version,
+                blockIndexes: blockIndexes,
+            });
+        }
+
+        return progress;
+    }
+
+    // only changes since the last update are sent to each peer, blocks are appended
+    // and files are forgotten once finished or replaced by a new version
+    private sendDownloadProgress() {
+        const current = this.currentProgress();
+
+        for (const peer of this.connectedPeers()) {
+            const sent: ProgressFiles = this.sentProgress.get(peer.id.asString) || new Map();
+            const folders = new Set([...current.keys(), ...sent.keys()]);
+
+            for (const folder of folders) {
+                if (this.database.indexSequence(folder, peer.id.asBytes) === null) {
+                    continue;
+                }
+
+                const currentFiles = current.get(folder) || new Map();
+                const sentFiles = sent.get(folder) || new Map();
+                const updates: ProgressUpdate[] = [];
+
+                for (const [name, sentFile] of sentFiles) {
+                    const currentFile = currentFiles.get(name);
+                    if (!currentFile || currentFile.version !== sentFile.version) {
+                        updates.push({
+                            updateType: ProgressUpdateType.forget,
+                            name: name,
+                            version: sentFile.version,
+                            blockIndexes: [],
+                        });
+                    }
+                }
+
+                for (const [name, currentFile] of currentFiles) {
+                    const sentFile = sentFiles.get(name);
+                    const known = sentFile && sentFile.version === currentFile.version ? sentFile.blockIndexes : new Set<number>();
+                    const blockIndexes = [...currentFile.blockIndexes].filter((blockIndex) => !known.has(blockIndex));
+                    if (blockIndexes.length > 0) {
+                        updates.push({
+                            updateType: ProgressUpdateType.append,
+                            name: name,
+                            version: currentFile.version,
+                            blockIndexes: blockIndexes,
+                        });
+                    }
+                }
+
+                if (updates.length > 0) {
+                    peer.communication.sendDownloadProgress({
+                        folder: folder,
+                        updates: updates,
+                    });
+                }
+            }
+
+            this.sentProgress.set(peer.id.asString, current);
+        }
+    }
+
+    private scheduleDownloadProgress() {
+        if (this.downloadProgressTimer) {
+            return;
+        }
+
+        this.downloadProgressTimer = setTimeout(() => {
+            this.downloadProgressTimer = undefined;
+            this.sendDownloadProgress();
+
+            // keep going while fetching, and until peers have been told we have finished
+            const told = [...this.sentProgress.values()].some((files) => files.size > 0);
+            if (this.requests.queueLength() > 0 || told) {
+                this.scheduleDownloadProgress();
+            }
+        }, DOWNLOAD_PROGRESS_INTERVAL);
+    }
+
+    private updatePeerProgress(peer: Peer, progress: DownloadProgress) {
+        if (!this.peerProgress.has(peer.id.asString)) {
+            this.peerProgress.set(peer.id.asString, new Map());
+        }
+        const files = this.peerProgress.get(peer.id.asString);
+        if (!files.has(progress.folder)) {
+            files.set(progress.folder, new Map());
+        }
+        const folderFiles = files.get(progress.folder);
+
+        for (const update of progress.updates) {
+            if (update.updateType === ProgressUpdateType.forget) {
+                folderFiles.delete(update.name);
+                continue;
+            }
+
+            let file = folderFiles.get(update.name);
+            if (!file || file.version !== update.version) {
+                file = {
+                    version: update.version,
+                    blockIndexes: new Set(),
+                };
+                folderFiles.set(update.name, file);
+            }
+            for (const blockIndex of update.blockIndexes) {
+                file.blockIndexes.add(blockIndex);
+            }
+        }
+    }
+
+    // the block is asked for from another peer, a read waiting for it is only rejected once
+    // no connected peer is left to try, and stop asking the peer for a file it doesn't have
+    private responseFailed(peer: Peer, response: Response) {
+        const error = RequestError.fromCode(response.code);
+        const blockRequest = this.requests.failed(response.id, error);
+        if (blockRequest === null) {
+            console.error('Syncthing::responseFailed: response block not found', response.id);
+            return;
+        }
+        console.info('Syncthing::responseFailed:', peer.id.asString, blockRequest.folder, blockRequest.name, error.message);
+
+        if (response.code === ErrorCode.noSuchFile || response.code === ErrorCode.invalidFile) {
+            // our copy of the peer's index said it had the file, so fetch the whole index again
+            const stale = this.database.fileUnavailable(blockRequest, peer.id.asBytes, response.code);
+            const refetched = this.indexRefetched.get(peer.id.asString);
+            if (stale && (refetched === undefined || Date.now() - refetched > INDEX_REFETCH_INTERVAL)) {
+                console.info('Syncthing::responseFailed: index looks out of date, reconnecting', peer.id.asString);
+                this.indexRefetched.set(peer.id.asString, Date.now());
+                this.database.resetPeerSequence(blockRequest.folder, peer.id.asBytes);
+                peer.reconnect('index out of date');
+            }
+        }
+
+        this.requestBlocks();
+    }
+
+    private peerDisconnected(peer: Peer) {
+        // progress is sent again from the start on the next connection
+        this.sentProgress.delete(peer.id.asString);
+        this.peerProgress.delete(peer.id.asString);
+
+        // blocks already requested are sent again once reconnected, or to another peer
+        if (this.connectedPeers().length === 0) {
+            this.requests.pause();
+        }
+        else {
+            this.requests.requeue(peer.id.asString);
+        }
+    }
+
+    // respond to a block request from the peer, we can only serve blocks we have cached
+    private async answerRequest(peer: Peer, request: PeerRequest) {
+        const response: Response = {
+            id: request.id,
+            data: new Uint8Array(0),
+            code: ErrorCode.generic,
+        };
+
+        try {
+            const peerBlock = this.database.blockForPeer(request.folder, request.name, request.offset);
+            response.code = peerBlock.code;
+
+            if (peerBlock.code === ErrorCode.noError) {
+                const blockRequest = peerBlock.blockRequest;
+                const block = blockRequest.block;
+
+                // like Syncthing, a block that doesn't match what was asked for doesn't exist
+                if (block.size !== request.size
+                || (request.hash.length > 0 && !Buffer.from(request.hash).equals(Buffer.from(block.hash)))) {
+                    console.debug('Syncthing::answerRequest: requested block does not match', request.name, request.offset);
+                    response.code = ErrorCode.noSuchFile;
+                }
+                else if (block.cached !== 1) {
+                    console.debug('Syncthing::answerRequest: requested block is not cached', request.name, request.offset);
+                    response.code = ErrorCode.generic;
+                }
+                else {
+                    // readBlock verifies the data against the hash
+                    const path = File.path(this.cachePath, blockRequest.folder, blockRequest.fileId, block.offset);
+                    try {
+                        response.data = await File.readBlock(path, block.size, block.hash);
+                        this.database.touchBlock(blockRequest);
+                    }
+                    catch (e) {
+                        if (!(e instanceof CacheCorruptionError)) {
+                            throw e;
+                        }
+                        this.cacheCorrupted(blockRequest, e);
+                        response.code = ErrorCode.generic;
+                    }
+                }
+            }
+        }
+        catch (e) {
+            console.error('Syncthing::answerRequest: failed to read block', e);
+            response.data = new Uint8Array(0);
+            response.code = ErrorCode.generic;
+        }
+
+        peer.communication.sendResponse(response);
+    }
+
+    // the block is fetched again when it is next needed
+    private cacheCorrupted(blockRequest: BlockRequest, error: CacheCorruptionError) {
+        console.error('Syncthing::cacheCorrupted:', blockRequest.name, blockRequest.block.offset, error.message);
+        blockRequest.block.cached = 2;
+        this.database.updateBlock(blockRequest);
+        this.emit('warning', error);
+    }
+
+    // falls back to requesting the block if the cached copy is corrupt
+    private async readCachedBlock(blockRequest: BlockRequest) : Promise<Uint8Array> {
+        const path = File.path(this.cachePath, blockRequest.folder, blockRequest.fileId, blockRequest.block.offset);
+        try {
+            const data = await File.readBlock(path, blockRequest.block.size, blockRequest.block.hash);
+            this.database.touchBlock(blockRequest);
+            return data;
+        }
+        catch (e) {
+            if (!(e instanceof CacheCorruptionError)) {
+                throw e;
+            }
+            this.cacheCorrupted(blockRequest, e);
+            return await this.requests.wait(blockRequest, RequestPriority.user);
+        }
+    }
+
+    private async processPeerMessage(peer: Peer, type: ProtocolMessage, message: Cluster | Index | Response | PeerRequest | DownloadProgress) {
         switch (type) {
             case ProtocolMessage.CLUSTER_CONFIG: {
                 try {
                     const cluster = <Cluster>message;
                     // if we received the ClusterConfig message, send ours back
                     // wait until remote device has sent, initially we have no state
-                    this.database.updateClusterConfig(cluster);
-                    const clusterConfig = this.database.getClusterConfig(this.peerId.asBytes);
-                    this.communication.sendClusterConfig(clusterConfig);
-
-                    // MUST exchange cluster config messages before anything else
-                    // check if any blocks need requesting
-                    //self.requestBlocks();
+                    this.database.updateClusterConfig(cluster, peer.id.asBytes);
+                    const clusterConfig = this.database.getClusterConfig(peer.id.asBytes);
+                    peer.communication.sendClusterConfig(clusterConfig);
 
                     // clients can't perform any communication with peer until we have
                     // exchanged cluster configs, so wait until then to signal connected
-                    this.event.emit('connected');
+                    peer.established();
+                    this.requests.resume();
+                    // listeners can tell which of the peer's addresses was used
+                    this.emit('connected', peer.id.asString, peer.address, peer.communication.remoteHello);
+
+                    for (const folder of cluster.folders) {
+                        this.sendLocalIndex(peer, folder.idString, true);
+                    }
+
+                    // MUST exchange cluster config messages before anything else
+                    // check if any blocks need requesting
+                    this.requestBlocks();
                 }
                 catch (e) {
                     console.error('Syncthing::processPeerMessage: cluster config error', e);
@@ -91,30 +763,45 @@ export default class Syncthing {
             case ProtocolMessage.INDEX_UPDATE: {
                 try {
                     const index = <Index>message;
-                    if (this.database.updateIndex(index)) {
+                    // versions are compared, so only changes newer than what we have from any peer are kept
+                    const changeSet = this.database.updateIndex(index, peer.id.asBytes, (path) => {
+                        // a conflict copy of ours may have been made, the peer needs to know about it
+                        this.queueLocalIndex(index.folder);
+                        this.emit('conflict', path);
+                    });
+                    if (changeSet.changes.length) {
                         this.requestBlocks();
                         this.deleteBlocks();
 
-                        this.event.emit('updated');
+                        this.emit('indexUpdated', changeSet);
                     }
                 }
                 catch (e) {
-                    console.error('Syncthing::processPeerMessage: index update error', e);
+                    // nothing was stored, the peer sends the index again when it reconnects
+                    console.error('Syncthing::processPeerMessage: index update error', e.message);
                 }
                 break;
             }
 
+            case ProtocolMessage.DOWNLOAD_PROGRESS: {
+                this.updatePeerProgress(peer, <DownloadProgress>message);
+                break;
+            }
+
+            case ProtocolMessage.REQUEST: {
+                const request = <PeerRequest>message;
+                console.debug('Syncthing::processPeerMessage: request', request.id, request.name);
+                await this.answerRequest(peer, request);
+                break;
+            }
+
             case ProtocolMessage.RESPONSE: {
                 try {
                     const response = <Response>message;
                     console.debug('Syncthing::processMessage: response', response.id);
 
-                    if (response.code !== 0) {
-                        // TODO: we have an error decide what to do
-                        // 1 - generic error (?)
-                        // 2 - no such file, clear requestBlocks
-                        // 3 - invalid, file exists, but invalid bit set
-                        console.error('Syncthing::processPeerMessage: response has error code');
+                    if (response.code !== ErrorCode.noError) {
+                        this.responseFailed(peer, response);
                         return;
                     }
 
@@ -127,6 +814,10 @@ export default class Syncthing {
                         // writeBlock will throw on error, so this wont run
                         blockRequest.block.cached = 1;
                         this.database.updateBlock(blockRequest);
+                        this.database.touchBlock(blockRequest);
+                        this.emit('blockCached', this.cachedBlock(blockRequest));
+                        this.emitProgress(blockRequest.folder);
+                        this.scheduleDeleteBlocks();
                     }
                     else {
                         console.error('Syncthing::processPeerMessage: response block not found');
@@ -140,33 +831,26 @@ export default class Syncthing {
         }
     }
 
-    constructor(name: string, cachePath: string, certPath: string, keyPath: string, dbPath: string) {
+    constructor(name: string, cachePath: string, certPath: string, keyPath: string, dbPath: string, cacheSize = DEFAULT_CACHE_SIZE) {
         this.cachePath = cachePath;
-        console.debug('Syncthing:: caching to path', this.cachePath);
-
-        this.communication = new Communication(certPath, keyPath, name, false);
+        this.cacheSize = cacheSize;
+        console.debug('Syncthing:: caching to path', this.cachePath, cacheSize);
 
-        this.communication.on('message', async (type, message) => {
-            await this.processPeerMessage(type, message);
-        });
-
-        this.communication.on('error', () => {
-            this.event.emit('error');
-        });
+        this.name = name;
+        this.certPath = certPath;
+        this.keyPath = keyPath;
+        this.localId = Authentication.fromCertificate(readFileSync(certPath));
+        this.globalDiscovery = new GlobalDiscovery(DEFAULT_DISCOVERY_SERVERS, certPath, keyPath);
 
-        this.communication.on('close', () => {
-            this.event.emit('error');
-        });
-
-        this.database = new Database(dbPath, name, this.communication.localId.asBytes, true);
+        this.database = new Database(dbPath, name, this.localId.asBytes, true);
 
         this.requests = new Request(
-            (block) => {
-            	console.debug('Synthing::Request:send', block);
-            	this.communication.requestBlock(block);
+            (block, failed) => {
+            	return this.sendRequest(block, failed);
             },
             () => {
             	this.requestBlocks();
+                this.scheduleDownloadProgress();
             },
             CONCURRENT_BLOCK_REQUESTS,
             BLOCK_REQUEST_TIMEOUT
@@ -175,155 +859,439 @@ export default class Syncthing {
 
     async destructor() {
     	this.requests.destructor();
+        clearTimeout(this.cacheCheckTimer);
+        clearTimeout(this.indexUpdateTimer);
+        clearTimeout(this.downloadProgressTimer);
 
-        if (this.communication) {
-            this.communication.destructor();
+        if (this.listener) {
+            this.listener.destructor();
         }
+
+        if (this.relayListener) {
+            this.relayListener.destructor();
+        }
+
+        if (this.localDiscovery) {
+            this.localDiscovery.destructor();
+        }
+        this.globalDiscovery.destructor();
+
+        for (const peer of this.peers.values()) {
+            peer.disconnect('shutting down');
+        }
+        this.peers.clear();
+
         if (this.database) {
             this.database.destructor();
         }
     }
 
-    on(event: string, listener: any) {
+    on<E extends keyof SyncthingEvents>(event: E, listener: SyncthingEvents[E]) {
         this.event.on(event, listener);
     }
 
+    // add a peer, call for each device to connect to, keeps trying to connect
+    // and reconnects if the connection is lost, rejects with why the first attempt failed
     async connect(url: string, peerIdString: string) {
-    	this.peerId = Authentication.fromString(peerIdString);
-        if (this.peerId.valid === false) {
-        	console.error('Syncthing::connect: invalid peer ID', peerIdString);
-            return;
+    	const peerId = Authentication.fromString(peerIdString);
+        if (peerId.valid === false) {
+            throw new InvalidArgumentError('invalid peer ID ' + peerIdString);
         }
 
-        // if set to dynamic, check discovery servers for addresses
-        if (url === 'dynamic') {
-            try {
-                const discoverReply: DiscoverReply = await discover('https://discovery.syncthing.net/?device=' + this.peerId.asString);
-                if (discoverReply.addresses.length > 0) {
-                    url = discoverReply.addresses[0];
-                }
-                else {
-                    console.error('Syncthing::connect: could not discover address for peer');
-                    return;
-                }
+        // connecting again replaces the address used for the peer
+        const existing = this.peers.get(peerId.asString);
+        if (existing) {
+            this.peers.delete(peerId.asString);
+            existing.destructor();
+            this.peerDisconnected(existing);
+        }
+
+        const peer = this.addPeer(peerId, url);
+        await peer.connect();
+    }
+
+    // tell peers why we are disconnecting and stop reconnecting to them, all peers
+    // unless a peer is given, connect adds the peer again
+    disconnect(reason: string, peerIdString?: string) {
+        const peers = [];
+        if (peerIdString === undefined) {
+            peers.push(...this.peers.values());
+        }
+        else {
+            const peerId = Authentication.fromString(peerIdString);
+            if (peerId.valid === false) {
+                throw new InvalidArgumentError('invalid peer ID ' + peerIdString);
             }
-            catch {
+
+            const peer = this.peers.get(peerId.asString);
+            if (!peer) {
+                console.error('Syncthing::disconnect: not connected to peer', peerIdString);
                 return;
             }
+            peers.push(peer);
+        }
+
+        for (const peer of peers) {
+            this.peers.delete(peer.id.asString);
+            peer.disconnect(reason);
+        }
+    }
+
+    // accept connections from allowed devices, as well as connecting out, rejects with a
+    // ConnectionError if the port can't be listened on, or an InvalidOperationError if already listening
+    async listen(port: number, allowedDeviceIds: string[]) {
+        if (this.listener) {
+            throw new InvalidOperationError('already listening');
         }
 
+        const listener = new Listener(this.certPath, this.keyPath, allowedDeviceIds);
+        listener.on('connection', async (socket: TLSSocket, peerId: DeviceId) => {
+            await this.acceptPeer(socket, peerId);
+        });
+
         try {
-            await this.communication.connect(url, this.peerId);
+            await listener.listen(port);
         }
-        catch (err) {
-            console.error('Syncthing::connect: failed to connect', err);
-            this.event.emit('error');
+        catch (e) {
+            listener.destructor();
+            throw e;
         }
+
+        this.listener = listener;
+        this.listenPort = port;
+        this.announceAddresses();
     }
 
-    // path should start with folder.path
-    attributes(path: string) : ListEntry | null {
-        if (typeof path !== 'string') {
-            console.error('Syncthing::attributes: path is not a string');
-            return null;
+    // stay joined to a relay, so allowed devices can connect to us from behind NAT, uses the
+    // given relays in order or the nearest from the relay pool, the relay is announced by discovery,
+    // rejects with why the last relay failed if none accepted us, joining is still retried meanwhile,
+    // or with an InvalidOperationError if already listening on a relay
+    async listenRelay(allowedDeviceIds: string[], relays?: string[]) {
+        if (this.relayListener) {
+            throw new InvalidOperationError('already listening on a relay');
         }
-        console.debug('Syncthing::attributes:', path);
+
+        if (!relays) {
+            relays = await this.relayPool.refresh();
+        }
+
+        const relayListener = new RelayListener(this.certPath, this.keyPath, allowedDeviceIds);
+        relayListener.on('connection', async (socket: TLSSocket, peerId: DeviceId) => {
+            await this.acceptPeer(socket, peerId);
+        });
+        relayListener.on('joined', () => {
+            this.announceAddresses();
+        });
+        relayListener.on('left', () => {
+            this.announceAddresses();
+        });
+
+        this.relayListener = relayListener;
+        await relayListener.start(relays);
+    }
+
+    // which messages are compressed, like Syncthing metadata is the default,
+    // each peer can ask for less compression in its cluster config
+    setCompression(compression: Compression) {
+        this.compression = compression;
+        for (const peer of this.peers.values()) {
+            peer.communication.setCompression(compression);
+        }
+    }
+
+    // replace the default global discovery servers, each is a URL with the server's
+    // device ID, e.g. https://discovery.example.com/v2/?id=DEVICE-ID
+    setDiscoveryServers(servers: string[]) : boolean {
+        return this.globalDiscovery.setServers(servers);
+    }
+
+    // replace the default relay pool, the URL should return a relay list in the same JSON as Syncthing's
+    setRelayPool(poolUrl: string) {
+        this.relayPool = new RelayPool(poolUrl);
+    }
+
+    // fetch the relay pool and measure latency to each relay, returns reachable relays nearest first
+    async refreshRelayPool() : Promise<string[]> {
+        return await this.relayPool.refresh();
+    }
+
+    // find dynamic peers on the LAN, and announce our address once listening, rejects with a
+    // ConnectionError if the discovery port can't be used, or an InvalidOperationError if already started
+    async startLocalDiscovery() {
+        if (this.localDiscovery) {
+            throw new InvalidOperationError('local discovery already started');
+        }
+
+        const localDiscovery = new LocalDiscovery(this.localId);
+        localDiscovery.on('discovered', (peerIdString: string) => {
+            const peer = this.peers.get(peerIdString);
+            if (peer) {
+                peer.discovered();
+            }
+        });
+
         try {
-            return this.database.attributes(path);
+            await localDiscovery.start();
         }
-        catch(e) {
-            console.error('Syncthing::attributes: error', e);
-            return null;
+        catch (e) {
+            localDiscovery.destructor();
+            throw e;
+        }
+
+        this.localDiscovery = localDiscovery;
+        this.announceAddresses();
+    }
+
+    // path should start with folder.path, throws a NotFoundError if nothing is there
+    attributes(path: string) : ListEntry {
+        if (typeof path !== 'string') {
+            throw new InvalidArgumentError('path is not a string');
         }
+        console.debug('Syncthing::attributes:', path);
+        return this.database.attributes(path);
     }
 
+    // throws a NotFoundError if path isn't a directory, an empty directory lists nothing
     list(path: string) : ListEntry[] {
         if (typeof path !== 'string') {
-            console.error('Syncthing::list: path is not a string');
-            return [];
+            throw new InvalidArgumentError('path is not a string');
         }
         console.debug('Syncthing::list:', path);
-        try {
-            return this.database.list(path);
+        return this.database.list(path);
+    }
+
+    // keep path available offline, download fetches the files there now and
+    // unpins each when a peer changes it, full also fetches changes and new entries,
+    // throws a NotFoundError if nothing is at path
+    pin(path: string, mode: SyncStatus = SyncStatus.download) {
+        if (typeof path !== 'string') {
+            throw new InvalidArgumentError('path is not a string');
         }
-        catch(e) {
-            console.error('Syncthing::list: error', e);
-            return [];
+        if (mode !== SyncStatus.download && mode !== SyncStatus.full) {
+            throw new InvalidArgumentError('invalid pin mode ' + mode);
         }
-    }
+        console.debug('Syncthing::pin:', path, mode);
 
-    async read(path: string, position: number, length: number) : Promise<Uint8Array> {
+        this.database.updateSync(path, mode);
+        this.requestBlocks();
+    }
 
-        if (length > 10485760) {
-            console.error('Syncthing::read: requested length more than 10MB');
-            return new Uint8Array(0);
+    // throws a NotFoundError if nothing is at path
+    unpin(path: string) {
+        if (typeof path !== 'string') {
+            throw new InvalidArgumentError('path is not a string');
         }
+        console.debug('Syncthing::unpin:', path);
 
-        try {
-            const blockRequests : BlockRequest[] = this.database.blocksToSatisfyRead(
-                path,
-                position,
-                length
-            );
+        this.database.updateSync(path, SyncStatus.none);
+    }
 
-            console.debug('Syncthing::read: required blocks', blockRequests);
-            const readData = new Uint8Array(length);
-            const blockReads : BlockRead[] = [];
+    pinned() : Pin[] {
+        return this.database.pinned();
+    }
 
-            let data : Promise<Uint8Array>;
-            for (const blockRequest of blockRequests) {
-                // if db says it's cached, try reading block and check hash
-                if (blockRequest.block.cached === 1) {
-                    const path = File.path(this.cachePath, blockRequest.folder, blockRequest.fileId, blockRequest.block.offset);
-                    data = File.readBlock(path, blockRequest.block.size, blockRequest.block.hash);
-                }
-                // for any block not cached, request with high priority
-                else {
-                    data = this.requests.wait(blockRequest, RequestPriority.user);
+    // size of cached blocks on disk for each folder
+    cacheUsage() : CacheUsage[] {
+        return this.database.cacheUsage();
+    }
+
+    // entries of the folder changed by us or any peer after sequence, pass -1 for every entry,
+    // throws a NotFoundError if there is no folder with the ID
+    changesSince(folder: string, sequence: number) : ChangeSet {
+        if (typeof folder !== 'string' || !Number.isInteger(sequence)) {
+            throw new InvalidArgumentError('folder must be a folder ID and sequence an integer');
+        }
+        return this.database.changesSince(folder, sequence);
+    }
+
+    // files connected peers are partway through downloading, and the blocks each has so far
+    downloadProgress() : FileProgress[] {
+        const progress: FileProgress[] = [];
+        for (const [deviceId, files] of this.peerProgress) {
+            for (const [folder, folderFiles] of files) {
+                for (const [name, file] of folderFiles) {
+                    progress.push({
+                        deviceId: deviceId,
+                        folder: folder,
+                        name: name,
+                        version: file.version,
+                        blockIndexes: [...file.blockIndexes].sort((a, b) => a - b),
+                    });
                 }
-                blockReads.push({
-                    data: data,
-                    blockRequest: blockRequest
-                });
             }
+        }
+        return progress;
+    }
 
-            // wait for the request or cached data
-            let readOffset = 0;
-            while (blockReads.length) {
-                const blockRequest = blockReads[0].blockRequest;
-                const block = blockRequest.block;
-                const blockData = await blockReads[0].data;
+    // replace contents of file at path, creating it if needed, and announce it to the peer,
+    // rejects with a NotFoundError if the directory is missing, or an InvalidOperationError if a directory is at path
+    async upload(path: string, data: Uint8Array) {
+        if (typeof path !== 'string') {
+            throw new InvalidArgumentError('path is not a string');
+        }
+        console.debug('Syncthing::upload:', path, data.length);
 
-                if (blockRequest.block.cached === 1) {
-                    // if cached block fails to read or incorrect hash
-                    // the function returns a 0 length data array
-                    if (blockData.length === 0) {
-                        block.cached = 2;
-                        this.database.updateBlock(blockRequest);
-                        blockReads[0].data = this.requests.wait(blockRequest, RequestPriority.user);
-                        continue;
-                    }
-                }
-                // remote requests ate already verified
+        const blockSize = File.blockSize(data.length);
+        const blocks = File.hashBlocks(data, blockSize);
+        const blockData = new Map<number, Uint8Array>();
+        for (const block of blocks) {
+            blockData.set(block.offset, data.subarray(block.offset, block.offset + block.size));
+        }
+
+        await this.commitLocalFile(path, data.length, blockSize, blocks, blockData);
+    }
+
+    // write data at position, the file must exist and grows if writing past the end,
+    // rejects with a NotFoundError if it doesn't
+    async write(path: string, position: number, data: Uint8Array) {
+        if (typeof path !== 'string') {
+            throw new InvalidArgumentError('path is not a string');
+        }
+        if (!Number.isInteger(position) || position < 0) {
+            throw new InvalidArgumentError('invalid position ' + position);
+        }
+        console.debug('Syncthing::write:', path, position, data.length);
 
-                const relativeStart = position - block.offset;
-                const start = relativeStart < 0 ? 0 : relativeStart;
-                const relativeEnd = relativeStart + length;
-                const end = relativeEnd > block.size ? block.size : relativeEnd;
+        const file = this.database.file(path);
+        if (file === null) {
+            throw new NotFoundError('file does not exist', path);
+        }
+
+        await this.rewrite(path, file, Math.max(file.size, position + data.length), position, data);
+    }
+
+    // shorten or zero extend file to size, rejects with a NotFoundError if there is no file
+    async truncate(path: string, size: number) {
+        if (typeof path !== 'string') {
+            throw new InvalidArgumentError('path is not a string');
+        }
+        if (!Number.isInteger(size) || size < 0) {
+            throw new InvalidArgumentError('invalid size ' + size);
+        }
+        console.debug('Syncthing::truncate:', path, size);
+
+        const file = this.database.file(path);
+        if (file === null) {
+            throw new NotFoundError('file does not exist', path);
+        }
+
+        await this.rewrite(path, file, size, size, new Uint8Array(0));
+    }
+
+    // create empty file, rejects with an InvalidOperationError if it already exists
+    async create(path: string) {
+        if (typeof path !== 'string') {
+            throw new InvalidArgumentError('path is not a string');
+        }
+        console.debug('Syncthing::create:', path);
+
+        if (this.database.file(path) !== null) {
+            throw new InvalidOperationError('file already exists', path);
+        }
+
+        await this.rewrite(path, null, 0, 0, new Uint8Array(0));
+    }
 
-                console.debug('Syncthing::read: sub array start, end, offset', start, end, readOffset);
-                readData.set(blockData.subarray(start, end), readOffset);
-                readOffset += end - start;
+    // throws a NotFoundError if the parent directory is missing, or an InvalidOperationError if path is taken
+    mkdir(path: string) {
+        if (typeof path !== 'string') {
+            throw new InvalidArgumentError('path is not a string');
+        }
+        console.debug('Syncthing::mkdir:', path);
+
+        this.database.createLocalDirectory(path, Date.now());
+        this.queueLocalIndex(this.database.folderId(path));
+    }
 
-                // remove first block from read list
-                blockReads.shift();
+    // remove file or empty directory, throws a NotFoundError if nothing is at path,
+    // or an InvalidOperationError if the directory isn't empty
+    unlink(path: string) {
+        if (typeof path !== 'string') {
+            throw new InvalidArgumentError('path is not a string');
+        }
+        console.debug('Syncthing::unlink:', path);
+
+        this.database.deleteLocal(path, Date.now());
+        this.queueLocalIndex(this.database.folderId(path));
+        this.scheduleDeleteBlocks();
+    }
+
+    // move file or directory within a folder, an existing file at the target is replaced,
+    // throws a NotFoundError if nothing is at from, or an InvalidOperationError if the target can't be replaced
+    rename(from: string, to: string) {
+        if (typeof from !== 'string' || typeof to !== 'string') {
+            throw new InvalidArgumentError('path is not a string');
+        }
+        console.debug('Syncthing::rename:', from, to);
+
+        this.database.renameLocal(from, to, Date.now());
+        this.queueLocalIndex(this.database.folderId(from));
+        this.scheduleDeleteBlocks();
+    }
+
+    // rejects with a NotFoundError if there is no file at path, or the error from fetching a block,
+    // such as a RequestError if the peer couldn't supply it
+    async read(path: string, position: number, length: number) : Promise<Uint8Array> {
+        if (typeof path !== 'string') {
+            throw new InvalidArgumentError('path is not a string');
+        }
+        if (length > MAX_READ_LENGTH) {
+            throw new InvalidArgumentError('requested length more than 10MB');
+        }
+
+        const blockRequests : BlockRequest[] = this.database.blocksToSatisfyRead(
+            path,
+            position,
+            length
+        );
+
+        console.debug('Syncthing::read: required blocks', blockRequests);
+        const readData = new Uint8Array(length);
+        const blockReads : BlockRead[] = [];
+
+        let data : Promise<Uint8Array>;
+        for (const blockRequest of blockRequests) {
+            // if db says it's cached, try reading block and check hash
+            if (blockRequest.block.cached === 1) {
+                data = this.readCachedBlock(blockRequest);
             }
+            // for any block not cached, request with high priority
+            else {
+                data = this.requests.wait(blockRequest, RequestPriority.user);
+            }
+            blockReads.push({
+                data: data,
+                blockRequest: blockRequest
+            });
+        }
 
-            return readData.subarray(0, readOffset);
+        // wait for all requests and cached data together, so a block that fails
+        // while an earlier one is still pending is never left unhandled
+        let blocksData: Uint8Array[];
+        try {
+            blocksData = await Promise.all(blockReads.map((blockRead) => blockRead.data));
         }
         catch (err) {
-            console.error('Syncthing::read: read failed to get required blocks', err);
-            new Uint8Array(0);
+            console.error('Syncthing::read: read failed to get required blocks', err.message);
+            throw err;
         }
+
+        let readOffset = 0;
+        for (let i = 0; i < blockReads.length; i++) {
+            const block = blockReads[i].blockRequest.block;
+            // remote requests are already verified
+            const blockData = blocksData[i];
+
+            const relativeStart = position - block.offset;
+            const start = relativeStart < 0 ? 0 : relativeStart;
+            const relativeEnd = relativeStart + length;
+            const end = relativeEnd > block.size ? block.size : relativeEnd;
+
+            console.debug('Syncthing::read: sub array start, end, offset', start, end, readOffset);
+            readData.set(blockData.subarray(start, end), readOffset);
+            readOffset += end - start;
+        }
+
+        return readData.subarray(0, readOffset);
     }
 }
@@ -0,0 +1,177 @@
+/*
+This file is part of Syncthing TS.
+
+Syncthing TS is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+Syncthing TS is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Syncthing TS.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+
+import Long from 'long';
+
+import { Counter, Vector, Ordering } from './constants';
+
+/*
+ * Versions are stored in the database as JSON text, the same format protobufjs
+ * produces for the Vector message, so rows written before this are unchanged.
+ */
+
+export default class VersionVector {
+
+    // short device ID is the first 64 bits of the device ID
+    static shortId(deviceId: Uint8Array) : string {
+        return Long.fromBytesBE(Array.from(deviceId.subarray(0, 8)), true).toString();
+    }
+
+    static parse(version: string) : Vector {
+        const vector: Vector = {
+            counters: []
+        };
+
+        if (!version) {
+            return vector;
+        }
+
+        const parsed = JSON.parse(version);
+        if (parsed && Array.isArray(parsed.counters)) {
+            for (const counter of parsed.counters) {
+                vector.counters.push({
+                    id: String(counter.id),
+                    value: Number(counter.value),
+                });
+            }
+        }
+
+        return vector;
+    }
+
+    static stringify(vector: Vector) : string {
+        // protobufjs leaves out empty repeated fields
+        if (vector.counters.length === 0) {
+            return '{}';
+        }
+
+        return JSON.stringify({
+            counters: vector.counters.map((counter) => ({
+                id: counter.id,
+                value: counter.value.toString(),
+            })),
+        });
+    }
+
+    // from decoded protobuf Vector message
+    static fromMessage(message: any) : Vector {
+        const vector: Vector = {
+            counters: []
+        };
+
+        if (message && Array.isArray(message.counters)) {
+            for (const counter of message.counters) {
+                vector.counters.push({
+                    id: Long.fromValue(counter.id).toUnsigned().toString(),
+                    value: Long.fromValue(counter.value).toNumber(),
+                });
+            }
+        }
+
+        return vector;
+    }
+
+    // to object that can be encoded as protobuf Vector message
+    static toMessage(vector: Vector) : object {
+        return {
+            counters: vector.counters.map((counter) => ({
+                id: Long.fromString(counter.id, true),
+                value: Long.fromNumber(counter.value, true),
+            })),
+        };
+    }
+
+    // how a relates to b, a missing counter has the value 0
+    static compare(a: Vector, b: Vector) : Ordering {
+        let greater = false;
+        let lesser = false;
+
+        for (const counterA of a.counters) {
+            const counterB = b.counters.find((counter) => counter.id === counterA.id);
+            const valueB = counterB ? counterB.value : 0;
+            if (counterA.value > valueB) {
+                greater = true;
+            }
+            else if (counterA.value < valueB) {
+                lesser = true;
+            }
+        }
+
+        for (const counterB of b.counters) {
+            const counterA = a.counters.find((counter) => counter.id === counterB.id);
+            if (!counterA && counterB.value > 0) {
+                lesser = true;
+            }
+        }
+
+        if (greater && lesser) {
+            return Ordering.concurrent;
+        }
+        if (greater) {
+            return Ordering.greater;
+        }
+        if (lesser) {
+            return Ordering.lesser;
+        }
+        return Ordering.equal;
+    }
+
+    // highest value of each counter in either vector
+    static merge(a: Vector, b: Vector) : Vector {
+        const counters: Counter[] = a.counters.map((counter) => ({ ...counter }));
+
+        for (const counterB of b.counters) {
+            const counter = counters.find((counter) => counter.id === counterB.id);
+            if (counter) {
+                counter.value = Math.max(counter.value, counterB.value);
+            }
+            else {
+                counters.push({ ...counterB });
+            }
+        }
+
+        counters.sort((a, b) => Long.fromString(a.id, true).compare(Long.fromString(b.id, true)));
+        return {
+            counters: counters
+        };
+    }
+
+    // increment the counter for this device, like Syncthing the counter jumps to the
+    // current time if that is larger, so versions still increase if the database is lost
+    static update(vector: Vector, id: string) : Vector {
+        const now = Math.floor(Date.now() / 1000);
+        const counters: Counter[] = vector.counters.map((counter) => ({ ...counter }));
+
+        const counter = counters.find((counter) => counter.id === id);
+        if (counter) {
+            counter.value = Math.max(counter.value + 1, now);
+        }
+        else {
+            counters.push({
+                id: id,
+                value: now,
+            });
+            // counters are kept in device ID order
+            counters.sort((a, b) => Long.fromString(a.id, true).compare(Long.fromString(b.id, true)));
+        }
+
+        return {
+            counters: counters
+        };
+    }
+}
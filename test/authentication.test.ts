@@ -0,0 +1,62 @@
+/*
+This file is part of Syncthing TS.
+
+Syncthing TS is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+Syncthing TS is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Syncthing TS.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import assert from 'assert';
+import { randomBytes } from 'crypto';
+
+import Authentication from '../src/authentication';
+
+describe('Authentication', () => {
+
+    describe('device ID', () => {
+        it('has a check digit after each group of 13 characters', () => {
+            const deviceId = Authentication.fromBytes(new Uint8Array(32));
+            assert.strictEqual(deviceId.asString, 'A'.repeat(56));
+        });
+
+        it('round trips through the string form', () => {
+            for (let i = 0; i < 200; i++) {
+                const bytes = randomBytes(32);
+                const deviceId = Authentication.fromString(Authentication.fromBytes(bytes).asString);
+
+                assert.strictEqual(deviceId.valid, true);
+                assert.deepStrictEqual(Buffer.from(deviceId.asBytes), bytes);
+            }
+        });
+
+        it('reads a device ID from Syncthing', () => {
+            const deviceId = Authentication.fromString('P56IOI7-MZJNU2Y-IQGDREY-DM2MGTI-MGL3BXN-PQ6W5BM-TBBZ4TJ-XZWICQ2');
+            assert.strictEqual(deviceId.valid, true);
+            assert.strictEqual(Authentication.fromBytes(deviceId.asBytes).asString, 'P56IOI7MZJNU2YIQGDREYDM2MGTIMGL3BXNPQ6W5BMTBBZ4TJXZWICQ2');
+        });
+
+        it('reads the grouped form with hyphens', () => {
+            const asString = Authentication.fromBytes(randomBytes(32)).asString;
+            const grouped = asString.match(/.{7}/g).join('-');
+            assert.strictEqual(Authentication.fromString(grouped).asString, asString);
+        });
+
+        it('rejects a wrong check digit', () => {
+            const asString = Authentication.fromBytes(new Uint8Array(32)).asString;
+            assert.strictEqual(Authentication.fromString(asString.substring(0, 13) + 'B' + asString.substring(14)).valid, false);
+        });
+
+        it('rejects the wrong length', () => {
+            assert.strictEqual(Authentication.fromString('A'.repeat(52)).valid, false);
+        });
+    });
+});
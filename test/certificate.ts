@@ -0,0 +1,58 @@
+/*
+This file is part of Syncthing TS.
+
+Syncthing TS is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+Syncthing TS is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Syncthing TS.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+import { md, pki, util } from 'node-forge';
+
+export interface TestCertificate {
+    directory: string;
+    certPath: string;
+    keyPath: string;
+};
+
+// self signed certificate like Syncthing's, written to a new temporary directory
+export function createCertificate(commonName = 'syncthing') : TestCertificate {
+    const keys = pki.rsa.generateKeyPair(2048);
+    const cert = pki.createCertificate();
+
+    cert.publicKey = keys.publicKey;
+    cert.serialNumber = util.bytesToHex(randomBytes(20).toString('binary'));
+    cert.validity.notBefore = new Date();
+    cert.validity.notAfter = new Date();
+    cert.validity.notAfter.setFullYear(cert.validity.notBefore.getFullYear() + 1);
+
+    const attrs = [
+        { name: 'commonName', value: commonName },
+    ];
+    cert.setSubject(attrs);
+    cert.setIssuer(attrs);
+    cert.sign(keys.privateKey, md.sha256.create());
+
+    const directory = mkdtempSync(join(tmpdir(), 'syncthingts-'));
+    const certificate = {
+        directory: directory,
+        certPath: join(directory, 'cert.pem'),
+        keyPath: join(directory, 'key.pem'),
+    };
+    writeFileSync(certificate.certPath, pki.certificateToPem(cert));
+    writeFileSync(certificate.keyPath, pki.privateKeyToPem(keys.privateKey));
+
+    return certificate;
+}
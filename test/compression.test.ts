@@ -0,0 +1,122 @@
+/*
+This file is part of Syncthing TS.
+
+Syncthing TS is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+Syncthing TS is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Syncthing TS.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import assert from 'assert';
+import { randomBytes } from 'crypto';
+import { removeSync } from 'fs-extra';
+
+import Communication from '../src/communication';
+import { Compression } from '../src/constants';
+import { ProtocolError } from '../src/errors';
+import { MAX_MESSAGE_LENGTH } from '../src/messageFramer';
+import { createCertificate, TestCertificate } from './certificate';
+
+describe('Communication compression', () => {
+    let certificate: TestCertificate;
+    let communication: Communication;
+
+    // compression is private, it is only used on messages going to and from the socket
+    const compress = (message: Uint8Array) : Uint8Array | null => communication['compress'](message);
+    const decompress = (data: Uint8Array) : Uint8Array => communication['decompress'](data);
+    const compressMessage = (type: string) : boolean => communication['compressMessage'](type);
+
+    before(() => {
+        certificate = createCertificate();
+    });
+
+    after(() => {
+        removeSync(certificate.directory);
+    });
+
+    beforeEach(() => {
+        communication = new Communication(certificate.certPath, certificate.keyPath, 'test');
+    });
+
+    afterEach(() => {
+        communication.destructor();
+    });
+
+    describe('LZ4', () => {
+        it('round trips a message', () => {
+            const message = Buffer.from('syncthing '.repeat(100));
+            const compressed = compress(message);
+
+            assert.notStrictEqual(compressed, null);
+            assert.ok(compressed.length < message.length);
+            assert.deepStrictEqual(Buffer.from(decompress(compressed)), message);
+        });
+
+        it('starts with the decompressed length', () => {
+            const message = Buffer.alloc(1000, 'a');
+            const compressed = Buffer.from(compress(message));
+            assert.strictEqual(compressed.readUInt32BE(0), 1000);
+        });
+
+        it('decompresses a block that is not at the start of its buffer', () => {
+            const message = Buffer.alloc(1000, 'b');
+            const compressed = compress(message);
+            const data = new Uint8Array(compressed.length + 10);
+            data.set(compressed, 10);
+            assert.deepStrictEqual(Buffer.from(decompress(data.subarray(10))), message);
+        });
+
+        it('leaves messages that do not get smaller', () => {
+            assert.strictEqual(compress(randomBytes(1000)), null);
+            assert.strictEqual(compress(Buffer.from('abc')), null);
+        });
+
+        it('rejects data too short for the length', () => {
+            assert.throws(() => decompress(new Uint8Array(3)), ProtocolError);
+        });
+
+        it('rejects a length larger than the maximum', () => {
+            const data = Buffer.alloc(8);
+            data.writeUInt32BE(MAX_MESSAGE_LENGTH + 1, 0);
+            assert.throws(() => decompress(data), ProtocolError);
+        });
+
+        it('rejects a block that does not decompress to the length', () => {
+            const compressed = Buffer.from(compress(Buffer.alloc(1000, 'c')));
+            compressed.writeUInt32BE(2000, 0);
+            assert.throws(() => decompress(compressed), ProtocolError);
+        });
+    });
+
+    describe('policy', () => {
+        it('compresses all but block data by default', () => {
+            assert.strictEqual(compressMessage('INDEX'), true);
+            assert.strictEqual(compressMessage('RESPONSE'), false);
+        });
+
+        it('compresses block data when both sides want everything compressed', () => {
+            communication.setCompression(Compression.always);
+            assert.strictEqual(compressMessage('RESPONSE'), false);
+
+            communication['peerCompression'] = Compression.always;
+            assert.strictEqual(compressMessage('RESPONSE'), true);
+        });
+
+        it('compresses nothing when either side never wants it', () => {
+            communication.setCompression(Compression.never);
+            assert.strictEqual(compressMessage('INDEX'), false);
+
+            communication.setCompression(Compression.always);
+            communication['peerCompression'] = Compression.never;
+            assert.strictEqual(compressMessage('INDEX'), false);
+        });
+    });
+});
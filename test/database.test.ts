@@ -0,0 +1,300 @@
+/*
+This file is part of Syncthing TS.
+
+Syncthing TS is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+Syncthing TS is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Syncthing TS.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import assert from 'assert';
+import { mkdtempSync } from 'fs';
+import { removeSync } from 'fs-extra';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import Database from '../src/database';
+import VersionVector from '../src/versionVector';
+import { File, Directory, Index, Cluster, Counter, ChangeSet, ChangeType, SyncStatus, ListEntryType, FileFlags } from '../src/constants';
+import { NotFoundError } from '../src/errors';
+
+const LOCAL_ID = new Uint8Array(32).fill(1);
+const PEER_ID = new Uint8Array(32).fill(2);
+const PEER_COUNTER = VersionVector.shortId(PEER_ID);
+
+function version(...counters: Counter[]) : string {
+    return VersionVector.stringify({ counters: counters });
+}
+
+// a file from the peer with a single block
+function peerFile(name: string, value: number, size = 10, modifiedS = 1000) : File {
+    return {
+        name: name,
+        size: size,
+        permissions: 420,
+        modifiedS: modifiedS,
+        modifiedNs: 0,
+        modifiedBy: PEER_ID.slice(0, 8),
+        flags: 0,
+        sequence: value,
+        blockSize: 131072,
+        version: version({ id: PEER_COUNTER, value: value }),
+        symlinkTarget: '',
+        sync: SyncStatus.none,
+        blocks: [{ offset: 0, size: size, hash: new Uint8Array(32).fill(value), cached: 0 }],
+    };
+}
+
+function peerDirectory(name: string, value: number, files: File[] = []) : Directory {
+    return {
+        name: name,
+        permissions: 493,
+        modifiedS: 1000,
+        modifiedNs: 0,
+        modifiedBy: PEER_ID.slice(0, 8),
+        flags: 0,
+        sequence: value,
+        version: version({ id: PEER_COUNTER, value: value }),
+        sync: SyncStatus.none,
+        files: files,
+    };
+}
+
+// what Communication creates to hold files whose directory wasn't in the message
+function placeholder(name: string, files: File[]) : Directory {
+    return {
+        name: name,
+        permissions: 0,
+        modifiedS: 0,
+        modifiedNs: 0,
+        modifiedBy: new Uint8Array(0),
+        flags: 0,
+        sequence: 0,
+        version: '',
+        sync: SyncStatus.none,
+        files: files,
+    };
+}
+
+function changes(changeSet: ChangeSet) : [ChangeType, string][] {
+    return changeSet.changes.map((change) => [change.type, change.path]);
+}
+
+describe('Database', () => {
+    let directory: string;
+    let database: Database;
+    // paths passed to onConflict
+    let conflicts: string[];
+
+    function updateIndex(...directories: Directory[]) : ChangeSet {
+        const index: Index = {
+            folder: 'f',
+            directories: directories,
+        };
+        return database.updateIndex(index, PEER_ID, (path) => conflicts.push(path));
+    }
+
+    beforeEach(() => {
+        conflicts = [];
+        directory = mkdtempSync(join(tmpdir(), 'syncthingts-'));
+        database = new Database(join(directory, 'index.db'), 'test', LOCAL_ID);
+
+        const cluster: Cluster = {
+            folders: [{
+                idString: 'f',
+                label: 'f',
+                path: '',
+                flags: 0,
+                devices: [LOCAL_ID, PEER_ID].map((id) => ({
+                    id: id,
+                    folderIdString: 'f',
+                    name: '',
+                    addresses: 'dynamic',
+                    maxSequence: 0,
+                    indexId: new Uint8Array(8),
+                })),
+            }],
+        };
+        database.updateClusterConfig(cluster, PEER_ID);
+    });
+
+    afterEach(() => {
+        database.destructor();
+        removeSync(directory);
+    });
+
+    describe('change set', () => {
+        it('reports added entries', () => {
+            const changeSet = updateIndex(peerDirectory('/d', 1, [peerFile('b.txt', 2)]));
+
+            assert.deepStrictEqual(changes(changeSet), [
+                [ChangeType.added, '/f/d'],
+                [ChangeType.added, '/f/d/b.txt'],
+            ]);
+            assert.strictEqual(changeSet.folder, 'f');
+            assert.strictEqual(changeSet.sequence, Math.max(...changeSet.changes.map((change) => change.sequence)));
+        });
+
+        it('does not report the parent of a file at the folder root', () => {
+            const changeSet = updateIndex(placeholder('/', [peerFile('a.txt', 1)]));
+            assert.deepStrictEqual(changes(changeSet), [
+                [ChangeType.added, '/f/a.txt'],
+            ]);
+
+            // the root is unchanged, so it isn't reported as modified the next time either
+            const nextChangeSet = updateIndex(placeholder('/', [peerFile('a.txt', 2)]));
+            assert.deepStrictEqual(changes(nextChangeSet), [
+                [ChangeType.modified, '/f/a.txt'],
+            ]);
+            assert.strictEqual(database.attributes('/f/').permissions, 493);
+        });
+
+        it('keeps a directory sent as a placeholder', () => {
+            updateIndex(peerDirectory('/d', 1));
+            const changeSet = updateIndex(placeholder('/d', [peerFile('b.txt', 2)]));
+
+            assert.deepStrictEqual(changes(changeSet), [
+                [ChangeType.added, '/f/d/b.txt'],
+            ]);
+            assert.strictEqual(database.attributes('/f/d/').modified.getTime(), 1000 * 1000);
+        });
+
+        it('reports modified and deleted entries with their sizes', () => {
+            updateIndex(placeholder('/', [peerFile('a.txt', 1, 10), peerFile('c.txt', 2, 30)]));
+
+            const deleted = peerFile('c.txt', 4, 0);
+            deleted.flags = FileFlags.deleted;
+            const changeSet = updateIndex(placeholder('/', [peerFile('a.txt', 3, 20), deleted]));
+
+            assert.deepStrictEqual(changeSet.changes.map((change) => [change.type, change.path, change.size, change.previousSize]), [
+                [ChangeType.modified, '/f/a.txt', 20, 10],
+                [ChangeType.deleted, '/f/c.txt', 0, 30],
+            ]);
+        });
+
+        it('does not report an entry that has not changed', () => {
+            updateIndex(placeholder('/', [peerFile('a.txt', 1)]));
+            assert.deepStrictEqual(changes(updateIndex(placeholder('/', [peerFile('a.txt', 1)]))), []);
+        });
+
+        it('does not report a deleted entry it never had', () => {
+            const deleted = peerFile('a.txt', 1, 0);
+            deleted.flags = FileFlags.deleted;
+            assert.deepStrictEqual(changes(updateIndex(placeholder('/', [deleted]))), []);
+        });
+
+        it('lists the same changes later', () => {
+            const changeSet = updateIndex(peerDirectory('/d', 1, [peerFile('b.txt', 2)]));
+            const since = database.changesSince('f', -1);
+
+            assert.deepStrictEqual(since.changes.map((change) => change.path), ['/f/d', '/f/d/b.txt']);
+            assert.strictEqual(since.sequence, changeSet.sequence);
+            assert.deepStrictEqual(database.changesSince('f', changeSet.sequence).changes, []);
+        });
+    });
+
+    describe('attributes', () => {
+        it('finds files and directories', () => {
+            updateIndex(peerDirectory('/d', 1, [peerFile('b.txt', 2, 20)]));
+
+            assert.strictEqual(database.attributes('/f/d').type, ListEntryType.directory);
+            assert.strictEqual(database.attributes('/f/d/b.txt').type, ListEntryType.file);
+            assert.strictEqual(database.attributes('/f/d/b.txt').size, 20);
+        });
+
+        it('finds a file with flags other than deleted', () => {
+            const file = peerFile('a.txt', 1);
+            file.flags = FileFlags.noPermissions;
+            updateIndex(placeholder('/', [file]));
+            assert.strictEqual(database.attributes('/f/a.txt').name, 'a.txt');
+        });
+
+        it('does not find a deleted file', () => {
+            updateIndex(placeholder('/', [peerFile('a.txt', 1)]));
+
+            const deleted = peerFile('a.txt', 2, 0);
+            deleted.flags = FileFlags.deleted | FileFlags.noPermissions;
+            updateIndex(placeholder('/', [deleted]));
+            assert.throws(() => database.attributes('/f/a.txt'), NotFoundError);
+        });
+    });
+
+    describe('conflicts', () => {
+        // our change to a file the peer sent as version 1, made at modifiedS
+        function changeLocally(modifiedS: number) {
+            updateIndex(placeholder('/', [peerFile('a.txt', 1)]));
+            database.updateLocalFile('/f/a.txt', 5, 131072, [{ offset: 0, size: 5, hash: new Uint8Array(32).fill(9), cached: 0 }], modifiedS * 1000);
+        }
+
+        function names() : string[] {
+            return database.list('/f/').map((entry) => entry.name).sort();
+        }
+
+        it('keeps our version when the peer has not seen it', () => {
+            changeLocally(2000);
+            const changeSet = updateIndex(placeholder('/', [peerFile('a.txt', 1)]));
+
+            assert.deepStrictEqual(changes(changeSet), []);
+            assert.deepStrictEqual(conflicts, []);
+            assert.strictEqual(database.file('/f/a.txt').size, 5);
+        });
+
+        it('takes the peer version when it has seen ours', () => {
+            changeLocally(2000);
+            const file = peerFile('a.txt', 2, 20, 3000);
+            file.version = VersionVector.stringify(VersionVector.update(VersionVector.parse(database.file('/f/a.txt').version), PEER_COUNTER));
+            const changeSet = updateIndex(placeholder('/', [file]));
+
+            assert.deepStrictEqual(changes(changeSet), [[ChangeType.modified, '/f/a.txt']]);
+            assert.deepStrictEqual(conflicts, []);
+            assert.strictEqual(database.file('/f/a.txt').size, 20);
+        });
+
+        it('keeps a copy of our file when the newer change from the peer wins', () => {
+            changeLocally(2000);
+            const changeSet = updateIndex(placeholder('/', [peerFile('a.txt', 2, 20, 3000)]));
+
+            assert.deepStrictEqual(conflicts, ['/f/a.txt']);
+            assert.strictEqual(database.file('/f/a.txt').size, 20);
+
+            const copies = names().filter((name) => name.startsWith('a.sync-conflict-'));
+            assert.strictEqual(copies.length, 1);
+            assert.match(copies[0], /^a\.sync-conflict-\d{8}-\d{6}-[A-Z2-7]{7}\.txt$/);
+            assert.strictEqual(database.file('/f/' + copies[0]).size, 5);
+
+            assert.deepStrictEqual(changes(changeSet).sort(), [
+                [ChangeType.added, '/f/' + copies[0]],
+                [ChangeType.modified, '/f/a.txt'],
+            ]);
+        });
+
+        it('keeps our file when our change is newer', () => {
+            changeLocally(4000);
+            const changeSet = updateIndex(placeholder('/', [peerFile('a.txt', 2, 20, 3000)]));
+
+            assert.deepStrictEqual(conflicts, ['/f/a.txt']);
+            assert.deepStrictEqual(changes(changeSet), []);
+            assert.deepStrictEqual(names(), ['a.txt']);
+            assert.strictEqual(database.file('/f/a.txt').size, 5);
+        });
+
+        it('keeps our modification over a newer delete', () => {
+            changeLocally(2000);
+            const deleted = peerFile('a.txt', 2, 0, 3000);
+            deleted.flags = FileFlags.deleted;
+            const changeSet = updateIndex(placeholder('/', [deleted]));
+
+            assert.deepStrictEqual(conflicts, ['/f/a.txt']);
+            assert.deepStrictEqual(changes(changeSet), []);
+            assert.strictEqual(database.file('/f/a.txt').size, 5);
+        });
+    });
+});
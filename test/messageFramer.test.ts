@@ -0,0 +1,138 @@
+/*
+This file is part of Syncthing TS.
+
+Syncthing TS is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+Syncthing TS is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Syncthing TS.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import assert from 'assert';
+
+import MessageFramer, { Frame, HELLO_MAGIC, MAX_MESSAGE_LENGTH } from '../src/messageFramer';
+import { ProtocolError } from '../src/errors';
+
+function hello(message: Buffer) : Buffer {
+    const start = Buffer.alloc(6);
+    start.writeUInt32BE(HELLO_MAGIC, 0);
+    start.writeUInt16BE(message.length, 4);
+    return Buffer.concat([start, message]);
+}
+
+function message(header: Buffer, message: Buffer, messageLength = message.length) : Buffer {
+    const headerLength = Buffer.alloc(2);
+    headerLength.writeUInt16BE(header.length, 0);
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(messageLength, 0);
+    return Buffer.concat([headerLength, header, length, message]);
+}
+
+function frames(framer: MessageFramer) : Frame[] {
+    const result: Frame[] = [];
+    let frame: Frame | null;
+    while ((frame = framer.next()) !== null) {
+        result.push(frame);
+    }
+    return result;
+}
+
+describe('MessageFramer', () => {
+    let framer: MessageFramer;
+    const data = Buffer.concat([
+        hello(Buffer.from('hello')),
+        message(Buffer.from('h1'), Buffer.from('first')),
+        message(Buffer.from('header2'), Buffer.alloc(0)),
+        message(Buffer.alloc(0), Buffer.from('third message')),
+    ]);
+
+    function assertFrames(result: Frame[]) {
+        assert.deepStrictEqual(result.map((frame) => [frame.hello, Buffer.from(frame.header).toString(), Buffer.from(frame.message).toString()]), [
+            [true, '', 'hello'],
+            [false, 'h1', 'first'],
+            [false, 'header2', ''],
+            [false, '', 'third message'],
+        ]);
+    }
+
+    beforeEach(() => {
+        framer = new MessageFramer();
+    });
+
+    it('needs more data before anything is received', () => {
+        assert.strictEqual(framer.next(), null);
+    });
+
+    it('reads several messages from one chunk', () => {
+        framer.push(data);
+        assertFrames(frames(framer));
+    });
+
+    it('reads messages split into single bytes', () => {
+        const result: Frame[] = [];
+        for (let i = 0; i < data.length; i++) {
+            framer.push(data.subarray(i, i + 1));
+            result.push(...frames(framer));
+        }
+        assertFrames(result);
+    });
+
+    it('reads messages split at every position', () => {
+        for (let i = 1; i < data.length; i++) {
+            framer.reset();
+            framer.push(data.subarray(0, i));
+            const result = frames(framer);
+            framer.push(data.subarray(i));
+            result.push(...frames(framer));
+            assertFrames(result);
+        }
+    });
+
+    it('returns frames that are not changed by later data', () => {
+        const chunk = Buffer.from(data);
+        framer.push(chunk);
+        const result = frames(framer);
+        chunk.fill(0);
+        assertFrames(result);
+    });
+
+    it('rejects a connection that does not start with hello', () => {
+        framer.push(message(Buffer.from('h'), Buffer.from('m')));
+        assert.throws(() => framer.next(), ProtocolError);
+    });
+
+    it('rejects a message larger than the maximum', () => {
+        framer.push(hello(Buffer.alloc(0)));
+        framer.push(message(Buffer.from('h'), Buffer.alloc(0), MAX_MESSAGE_LENGTH + 1));
+        assert.strictEqual(framer.next().hello, true);
+        assert.throws(() => framer.next(), ProtocolError);
+    });
+
+    it('reads nothing more after failing until reset', () => {
+        framer.push(Buffer.alloc(6));
+        assert.throws(() => framer.next(), ProtocolError);
+
+        framer.push(data);
+        assert.strictEqual(framer.next(), null);
+
+        framer.reset();
+        framer.push(data);
+        assertFrames(frames(framer));
+    });
+
+    it('expects hello again after reset', () => {
+        framer.push(hello(Buffer.from('hello')));
+        framer.next();
+        framer.reset();
+
+        framer.push(data);
+        assertFrames(frames(framer));
+    });
+});
@@ -0,0 +1,164 @@
+/*
+This file is part of Syncthing TS.
+
+Syncthing TS is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+Syncthing TS is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Syncthing TS.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import assert from 'assert';
+import { readFileSync } from 'fs';
+import { createHmac, randomBytes } from 'crypto';
+import { removeSync } from 'fs-extra';
+
+import QuicSocket from '../src/quicSocket';
+import PeerSocket from '../src/peerSocket';
+import Authentication from '../src/authentication';
+import { PeerIdentityError } from '../src/errors';
+import { createCertificate, TestCertificate } from './certificate';
+
+// the same optional dependencies QuicSocket uses
+const quic = QuicSocket.available ? require('@matrixai/quic') : null;
+const logger = QuicSocket.available ? require('@matrixai/logger') : null;
+
+function hmac(key: ArrayBuffer, data: ArrayBuffer) : Buffer {
+    return createHmac('sha256', Buffer.from(key)).update(Buffer.from(data)).digest();
+}
+
+// QUIC server that sends back whatever is written on each stream
+async function startEchoServer(certificate: TestCertificate) : Promise<any> {
+    const server = new quic.QUICServer({
+        crypto: {
+            key: randomBytes(32),
+            ops: {
+                sign: async (key: ArrayBuffer, data: ArrayBuffer) => {
+                    const signature = hmac(key, data);
+                    return signature.buffer.slice(signature.byteOffset, signature.byteOffset + signature.length);
+                },
+                verify: async (key: ArrayBuffer, data: ArrayBuffer, signature: ArrayBuffer) => hmac(key, data).equals(Buffer.from(signature)),
+            },
+        },
+        config: {
+            key: readFileSync(certificate.keyPath),
+            cert: readFileSync(certificate.certPath),
+            verifyPeer: true,
+            verifyCallback: async () => undefined,
+            applicationProtos: ['bep/1.0'],
+        },
+        logger: new logger.default('EchoServer', logger.LogLevel.ERROR),
+    });
+
+    server.addEventListener(quic.events.EventQUICServerConnection.name, (event: any) => {
+        const connection = event.detail;
+        // the client closing the connection is reported as an error
+        connection.addEventListener(quic.events.EventQUICConnectionError.name, () => undefined);
+        connection.addEventListener(quic.events.EventQUICConnectionStream.name, async (streamEvent: any) => {
+            const reader = streamEvent.detail.readable.getReader();
+            const writer = streamEvent.detail.writable.getWriter();
+            try {
+                while (true) {
+                    const { value, done } = await reader.read();
+                    if (done) {
+                        break;
+                    }
+                    await writer.write(value);
+                }
+            }
+            catch (e) {
+                // connection closed
+            }
+        });
+    });
+
+    await server.start({ host: '127.0.0.1', port: 0 });
+    return server;
+}
+
+(QuicSocket.available ? describe : describe.skip)('QuicSocket', function () {
+    // the first connection loads the native library
+    this.timeout(10000);
+
+    let serverCertificate: TestCertificate;
+    let clientCertificate: TestCertificate;
+    let server: any;
+    let peerSocket: PeerSocket;
+
+    before(async () => {
+        serverCertificate = createCertificate();
+        clientCertificate = createCertificate();
+        server = await startEchoServer(serverCertificate);
+    });
+
+    after(async () => {
+        await server.stop({ force: true });
+        removeSync(serverCertificate.directory);
+        removeSync(clientCertificate.directory);
+    });
+
+    beforeEach(() => {
+        peerSocket = new PeerSocket({
+            cert: readFileSync(clientCertificate.certPath),
+            key: readFileSync(clientCertificate.keyPath),
+        });
+    });
+
+    afterEach(() => {
+        peerSocket.close();
+    });
+
+    it('connects to a quic address and exchanges data', async () => {
+        const url = 'quic://127.0.0.1:' + server.port;
+        const peerId = Authentication.fromCertificate(readFileSync(serverCertificate.certPath));
+        assert.strictEqual(await peerSocket.connect(url, peerId), url);
+
+        const received = new Promise((resolve) => {
+            peerSocket.on('data', resolve);
+        });
+        peerSocket.write(Buffer.from('ping over quic'));
+        assert.strictEqual(String(await received), 'ping over quic');
+    });
+
+    it('rejects a peer with another device ID', async () => {
+        const url = 'quic4://127.0.0.1:' + server.port;
+        const otherId = Authentication.fromCertificate(readFileSync(clientCertificate.certPath));
+        await assert.rejects(peerSocket.connect(url, otherId), PeerIdentityError);
+    });
+
+    it('emits close when the connection ends', async () => {
+        const peerId = Authentication.fromCertificate(readFileSync(serverCertificate.certPath));
+        await peerSocket.connect('quic://127.0.0.1:' + server.port, peerId);
+
+        const closed = new Promise((resolve) => {
+            peerSocket.on('close', resolve);
+        });
+        peerSocket.destructor();
+        await closed;
+    });
+
+    it('emits error and close when the host is not found', async () => {
+        const socket = new QuicSocket({
+            cert: readFileSync(clientCertificate.certPath),
+            key: readFileSync(clientCertificate.keyPath),
+        });
+
+        const failed = new Promise((resolve) => {
+            socket.on('error', resolve);
+        });
+        const closed = new Promise((resolve) => {
+            socket.on('close', resolve);
+        });
+
+        socket.connect(22000, 'host.invalid');
+        assert.ok(await failed instanceof Error);
+        await closed;
+    });
+});
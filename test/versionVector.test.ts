@@ -0,0 +1,140 @@
+/*
+This file is part of Syncthing TS.
+
+Syncthing TS is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+
+Syncthing TS is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Syncthing TS.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import assert from 'assert';
+import Long from 'long';
+
+import VersionVector from '../src/versionVector';
+import { Vector, Ordering } from '../src/constants';
+
+function vector(...counters: [string, number][]) : Vector {
+    return {
+        counters: counters.map(([id, value]) => ({ id: id, value: value })),
+    };
+}
+
+describe('VersionVector', () => {
+
+    describe('shortId', () => {
+        it('is the first 64 bits of the device ID as an unsigned decimal', () => {
+            const deviceId = new Uint8Array(32).fill(0xff);
+            assert.strictEqual(VersionVector.shortId(deviceId), '18446744073709551615');
+
+            deviceId.set([0, 0, 0, 0, 0, 0, 1, 2]);
+            assert.strictEqual(VersionVector.shortId(deviceId), '258');
+        });
+    });
+
+    describe('parse and stringify', () => {
+        it('round trips counters', () => {
+            const version = vector(['1', 3], ['18446744073709551615', 7]);
+            assert.deepStrictEqual(VersionVector.parse(VersionVector.stringify(version)), version);
+        });
+
+        it('writes values as strings like protobufjs does', () => {
+            assert.strictEqual(VersionVector.stringify(vector(['5', 2])), '{"counters":[{"id":"5","value":"2"}]}');
+        });
+
+        it('writes an empty vector without counters', () => {
+            assert.strictEqual(VersionVector.stringify(vector()), '{}');
+            assert.deepStrictEqual(VersionVector.parse('{}'), vector());
+        });
+
+        it('treats an empty version as an empty vector', () => {
+            assert.deepStrictEqual(VersionVector.parse(''), vector());
+        });
+    });
+
+    describe('fromMessage and toMessage', () => {
+        it('round trips through the protobuf form', () => {
+            const version = vector(['18446744073709551615', 1], ['42', 1600000000]);
+            assert.deepStrictEqual(VersionVector.fromMessage(VersionVector.toMessage(version)), version);
+        });
+
+        it('reads signed ids as unsigned', () => {
+            const message = {
+                counters: [{ id: Long.fromNumber(-1), value: Long.fromNumber(2) }],
+            };
+            assert.deepStrictEqual(VersionVector.fromMessage(message), vector(['18446744073709551615', 2]));
+        });
+
+        it('reads a missing message as an empty vector', () => {
+            assert.deepStrictEqual(VersionVector.fromMessage(null), vector());
+        });
+    });
+
+    describe('compare', () => {
+        it('finds equal vectors', () => {
+            assert.strictEqual(VersionVector.compare(vector(['1', 2], ['2', 3]), vector(['2', 3], ['1', 2])), Ordering.equal);
+            assert.strictEqual(VersionVector.compare(vector(), vector()), Ordering.equal);
+        });
+
+        it('treats a missing counter as 0', () => {
+            assert.strictEqual(VersionVector.compare(vector(['1', 0]), vector()), Ordering.equal);
+            assert.strictEqual(VersionVector.compare(vector(['1', 1]), vector()), Ordering.greater);
+            assert.strictEqual(VersionVector.compare(vector(), vector(['1', 1])), Ordering.lesser);
+        });
+
+        it('finds greater and lesser vectors', () => {
+            assert.strictEqual(VersionVector.compare(vector(['1', 2], ['2', 3]), vector(['1', 1], ['2', 3])), Ordering.greater);
+            assert.strictEqual(VersionVector.compare(vector(['1', 1]), vector(['1', 1], ['2', 1])), Ordering.lesser);
+        });
+
+        it('finds concurrent vectors', () => {
+            assert.strictEqual(VersionVector.compare(vector(['1', 2], ['2', 1]), vector(['1', 1], ['2', 2])), Ordering.concurrent);
+            assert.strictEqual(VersionVector.compare(vector(['1', 1]), vector(['2', 1])), Ordering.concurrent);
+        });
+    });
+
+    describe('merge', () => {
+        it('keeps the highest value of each counter in device ID order', () => {
+            const merged = VersionVector.merge(vector(['10', 5], ['2', 1]), vector(['2', 4], ['1', 3]));
+            assert.deepStrictEqual(merged, vector(['1', 3], ['2', 4], ['10', 5]));
+        });
+
+        it('does not change either vector', () => {
+            const a = vector(['1', 1]);
+            const b = vector(['1', 2]);
+            VersionVector.merge(a, b);
+            assert.deepStrictEqual(a, vector(['1', 1]));
+            assert.deepStrictEqual(b, vector(['1', 2]));
+        });
+    });
+
+    describe('update', () => {
+        it('adds a counter at the current time in device ID order', () => {
+            const before = Math.floor(Date.now() / 1000);
+            const updated = VersionVector.update(vector(['1', 5], ['3', 5]), '2');
+            const after = Math.floor(Date.now() / 1000);
+
+            assert.deepStrictEqual(updated.counters.map((counter) => counter.id), ['1', '2', '3']);
+            assert.ok(updated.counters[1].value >= before && updated.counters[1].value <= after);
+        });
+
+        it('increments a counter that is ahead of the clock', () => {
+            const future = Math.floor(Date.now() / 1000) + 1000;
+            const updated = VersionVector.update(vector(['1', future]), '1');
+            assert.deepStrictEqual(updated, vector(['1', future + 1]));
+        });
+
+        it('makes a version greater than the one it updates', () => {
+            const version = vector(['1', 3], ['2', 4]);
+            assert.strictEqual(VersionVector.compare(VersionVector.update(version, '2'), version), Ordering.greater);
+            assert.deepStrictEqual(version, vector(['1', 3], ['2', 4]));
+        });
+    });
+});